@@ -22,7 +22,7 @@ export default defineConfig([
         {
           enforceCamelCaseLower: true,
           acronyms: [...DEFAULT_ACRONYMS, "TTS"],
-          brands: [...DEFAULT_BRANDS, "Chrome"],
+          brands: [...DEFAULT_BRANDS, "Chrome", "WebVTT", "SubRip"],
         },
       ],
     },
@@ -0,0 +1,92 @@
+import type { ReadingPosition } from "./types";
+
+/** Characters after the saved offset kept to relocate it after edits */
+const CONTEXT_CHARS = 64;
+
+/**
+ * Saved reading positions per note. Positions refer to a snapshot of the
+ * note; when the note has changed since, the offset is relocated by
+ * searching for the saved context text, or dropped if it is gone.
+ */
+export class ReadingPositionStore {
+	private positions: Record<string, ReadingPosition>;
+
+	constructor(positions: Record<string, ReadingPosition>) {
+		this.positions = { ...positions };
+	}
+
+	has(path: string): boolean {
+		return path in this.positions;
+	}
+
+	/**
+	 * Save a position.
+	 * @param content The note content the offset refers to
+	 * @param mtime The note's modification time for that content
+	 */
+	set(path: string, offset: number, content: string, mtime: number): void {
+		this.positions[path] = {
+			offset,
+			mtime,
+			context: content.substring(offset, offset + CONTEXT_CHARS),
+		};
+	}
+
+	delete(path: string): boolean {
+		if (!this.has(path)) return false;
+		delete this.positions[path];
+		return true;
+	}
+
+	rename(oldPath: string, newPath: string): boolean {
+		const position = this.positions[oldPath];
+		if (!position) return false;
+		delete this.positions[oldPath];
+		this.positions[newPath] = position;
+		return true;
+	}
+
+	/**
+	 * Get the saved offset for a note's current content. Remaps the offset
+	 * if the note changed since it was saved, and drops it if the saved
+	 * context can no longer be found.
+	 */
+	resolve(path: string, content: string, mtime: number): number | null {
+		const position = this.positions[path];
+		if (!position) return null;
+
+		if (position.mtime === mtime || content.startsWith(position.context, position.offset)) {
+			if (position.offset < content.length) return position.offset;
+			this.delete(path);
+			return null;
+		}
+
+		const offset = this.findNearest(content, position.context, position.offset);
+		if (offset === null) {
+			this.delete(path);
+			return null;
+		}
+
+		this.set(path, offset, content, mtime);
+		return offset;
+	}
+
+	toJSON(): Record<string, ReadingPosition> {
+		return { ...this.positions };
+	}
+
+	/** Find the occurrence of `context` closest to the old offset */
+	private findNearest(content: string, context: string, oldOffset: number): number | null {
+		if (context.length === 0) return null;
+
+		let best: number | null = null;
+		let idx = content.indexOf(context);
+		while (idx !== -1) {
+			if (best === null || Math.abs(idx - oldOffset) < Math.abs(best - oldOffset)) {
+				best = idx;
+			}
+			idx = content.indexOf(context, idx + 1);
+		}
+		return best;
+	}
+}
@@ -0,0 +1,106 @@
+import { type App, type EventRef, Events, TFile } from "obsidian";
+import type { PlaybackController } from "./tts/PlaybackController";
+import type { EditorRange, PlaybackProgress, PlaybackState } from "./types";
+
+/** Events other plugins can subscribe to through `TTSHighlightApi.on` */
+export interface TTSHighlightEvents {
+	/** A word is highlighted; the range is in editor offsets of the note being read */
+	highlight: (range: EditorRange) => void;
+	/** Playback moved on to another chunk */
+	chunk: (chunkIndex: number, totalChunks: number) => void;
+	/** The playback state changed, or progress advanced by a word */
+	state: (state: PlaybackState, progress: PlaybackProgress) => void;
+	/** Playback ended; `finished` is false when it was stopped early */
+	end: (finished: boolean) => void;
+}
+
+/** Reading actions the API delegates to the plugin */
+export interface ApiHost {
+	/** Speak markdown text that does not belong to a note */
+	speakText(text: string): void;
+	/** Read a note, from an editor offset when given */
+	readFile(file: TFile, from?: number): Promise<void>;
+}
+
+/**
+ * Typed API for other plugins and scripts, available as
+ * `app.plugins.plugins["tts-highlight"].api`.
+ */
+export class TTSHighlightApi {
+	private app: App;
+	private controller: PlaybackController;
+	private host: ApiHost;
+	private events = new Events();
+	/** Chunk of the last state event, to report chunk changes */
+	private lastChunk = -1;
+
+	constructor(app: App, controller: PlaybackController, host: ApiHost) {
+		this.app = app;
+		this.controller = controller;
+		this.host = host;
+	}
+
+	/** Speak markdown text, stopping anything being read */
+	speak(text: string): void {
+		this.host.speakText(text);
+	}
+
+	/**
+	 * Read the note at a vault path, from an editor offset when given.
+	 * Resolves to false when there is no note at that path.
+	 */
+	async readFile(path: string, from?: number): Promise<boolean> {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) return false;
+		await this.host.readFile(file, from);
+		return true;
+	}
+
+	pause(): void {
+		this.controller.pause();
+	}
+
+	resume(): void {
+		this.controller.resume();
+	}
+
+	stop(): void {
+		this.controller.stop();
+	}
+
+	getState(): PlaybackState {
+		return this.controller.getState();
+	}
+
+	getProgress(): PlaybackProgress {
+		return this.controller.getProgress();
+	}
+
+	/** Subscribe to an event; pass the returned reference to `offref` to unsubscribe */
+	on<K extends keyof TTSHighlightEvents>(name: K, callback: TTSHighlightEvents[K]): EventRef {
+		return this.events.on(name, callback);
+	}
+
+	offref(ref: EventRef): void {
+		this.events.offref(ref);
+	}
+
+	/** Called by the plugin for every controller state change */
+	notifyState(state: PlaybackState, progress: PlaybackProgress): void {
+		this.events.trigger("state", state, progress);
+		if (state !== "idle" && progress.chunkIndex !== this.lastChunk) {
+			this.events.trigger("chunk", progress.chunkIndex, progress.totalChunks);
+		}
+		this.lastChunk = state === "idle" ? -1 : progress.chunkIndex;
+	}
+
+	/** Called by the plugin for every highlighted word */
+	notifyHighlight(range: EditorRange): void {
+		this.events.trigger("highlight", range);
+	}
+
+	/** Called by the plugin when a session ends */
+	notifyEnd(finished: boolean): void {
+		this.events.trigger("end", finished);
+	}
+}
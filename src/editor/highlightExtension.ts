@@ -1,7 +1,9 @@
 import {
 	StateField,
 	StateEffect,
+	type StateEffectType,
 	type Extension,
+	type ChangeSet,
 } from "@codemirror/state";
 import {
 	Decoration,
@@ -12,39 +14,62 @@ import {
 /** Effect to set the currently highlighted word range, or null to clear */
 export const setTTSHighlight = StateEffect.define<{ from: number; to: number } | null>();
 
-/** StateField that manages the current TTS word highlight decoration */
-const ttsHighlightField = StateField.define<DecorationSet>({
-	create() {
-		return Decoration.none;
-	},
-	update(decorations, tr) {
-		for (const effect of tr.effects) {
-			if (effect.is(setTTSHighlight)) {
-				if (effect.value === null) {
-					return Decoration.none;
-				}
-				const { from, to } = effect.value;
-				// Clamp to document bounds
-				const docLen = tr.state.doc.length;
-				const clampedFrom = Math.max(0, Math.min(from, docLen));
-				const clampedTo = Math.max(clampedFrom, Math.min(to, docLen));
-				if (clampedFrom === clampedTo) {
-					return Decoration.none;
+/** Effect to set the currently highlighted sentence range, or null to clear */
+export const setTTSSentenceHighlight = StateEffect.define<{ from: number; to: number } | null>();
+
+/** Effect to set the range of text already spoken, or null to clear */
+export const setTTSSpokenHighlight = StateEffect.define<{ from: number; to: number } | null>();
+
+/**
+ * Build a StateField holding a single mark decoration with the given class,
+ * replaced by the given effect and mapped through document changes.
+ */
+function createRangeHighlightField(
+	effectType: StateEffectType<{ from: number; to: number } | null>,
+	className: string
+): StateField<DecorationSet> {
+	return StateField.define<DecorationSet>({
+		create() {
+			return Decoration.none;
+		},
+		update(decorations, tr) {
+			for (const effect of tr.effects) {
+				if (effect.is(effectType)) {
+					if (effect.value === null) {
+						return Decoration.none;
+					}
+					const { from, to } = effect.value;
+					// Clamp to document bounds
+					const docLen = tr.state.doc.length;
+					const clampedFrom = Math.max(0, Math.min(from, docLen));
+					const clampedTo = Math.max(clampedFrom, Math.min(to, docLen));
+					if (clampedFrom === clampedTo) {
+						return Decoration.none;
+					}
+					const deco = Decoration.mark({ class: className });
+					return Decoration.set([deco.range(clampedFrom, clampedTo)]);
 				}
-				const deco = Decoration.mark({ class: "tts-word-current" });
-				return Decoration.set([deco.range(clampedFrom, clampedTo)]);
 			}
-		}
-		// Map through document changes (if the doc is edited)
-		if (tr.docChanged) {
-			return decorations.map(tr.changes);
-		}
-		return decorations;
-	},
-	provide(field) {
-		return EditorView.decorations.from(field);
-	},
-});
+			// Map through document changes (if the doc is edited)
+			if (tr.docChanged) {
+				return decorations.map(tr.changes);
+			}
+			return decorations;
+		},
+		provide(field) {
+			return EditorView.decorations.from(field);
+		},
+	});
+}
+
+/** StateField that manages the current TTS word highlight decoration */
+const ttsHighlightField = createRangeHighlightField(setTTSHighlight, "tts-word-current");
+
+/** StateField that manages the current TTS sentence highlight decoration */
+const ttsSentenceField = createRangeHighlightField(setTTSSentenceHighlight, "tts-sentence-current");
+
+/** StateField that manages the decoration of the text already spoken (styled in styles.css) */
+const ttsSpokenField = createRangeHighlightField(setTTSSpokenHighlight, "tts-spoken");
 
 /** Base theme for the TTS highlight */
 const ttsBaseTheme = EditorView.baseTheme({
@@ -52,29 +77,50 @@ const ttsBaseTheme = EditorView.baseTheme({
 		backgroundColor: "var(--tts-highlight-color, hsla(var(--accent-h), var(--accent-s), var(--accent-l), 0.35))",
 		borderRadius: "2px",
 	},
+	".tts-sentence-current": {
+		backgroundColor: "var(--tts-sentence-color, hsla(var(--accent-h), var(--accent-s), var(--accent-l), 0.12))",
+	},
 });
 
-/** Callback invoked when a document changes while a TTS highlight is active */
-let onDocChangeDuringPlayback: (() => void) | null = null;
+/** Callback invoked with the changes whenever an editor's document changes */
+let onDocChange: ((view: EditorView, changes: ChangeSet) => void) | null = null;
 
-export function setDocChangeCallback(cb: (() => void) | null): void {
-	onDocChangeDuringPlayback = cb;
+export function setDocChangeCallback(cb: ((view: EditorView, changes: ChangeSet) => void) | null): void {
+	onDocChange = cb;
 }
 
-/** Listener that fires the callback when doc changes while highlight is active */
+/** Listener that passes document changes on, so playback can follow edits */
 const docChangeListener = EditorView.updateListener.of((update) => {
-	if (update.docChanged && onDocChangeDuringPlayback) {
-		// Check if there's an active highlight
-		const decos = update.state.field(ttsHighlightField);
-		if (decos.size > 0) {
-			onDocChangeDuringPlayback();
-		}
+	if (update.docChanged && onDocChange) {
+		onDocChange(update.view, update.changes);
 	}
 });
 
+/** Callback invoked on editor clicks with the clicked document position; returns true if handled */
+let onEditorClick: ((view: EditorView, pos: number, event: MouseEvent) => boolean) | null = null;
+
+export function setEditorClickCallback(
+	cb: ((view: EditorView, pos: number, event: MouseEvent) => boolean) | null
+): void {
+	onEditorClick = cb;
+}
+
+/** Handler that resolves editor clicks to document positions for click-to-seek */
+const clickHandler = EditorView.domEventHandlers({
+	click(event, view) {
+		if (!onEditorClick) return false;
+		const pos = view.posAtCoords({ x: event.clientX, y: event.clientY });
+		if (pos === null) return false;
+		return onEditorClick(view, pos, event);
+	},
+});
+
 /** Complete CM6 extension for TTS highlighting */
 export const ttsHighlightExtension: Extension = [
+	ttsSpokenField,
+	ttsSentenceField,
 	ttsHighlightField,
 	ttsBaseTheme,
 	docChangeListener,
+	clickHandler,
 ];
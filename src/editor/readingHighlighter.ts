@@ -1,6 +1,9 @@
+import type { PlainRange } from "../types";
+
 // Type declarations for CSS Custom Highlight API (not yet in TS lib)
 declare class HighlightClass {
 	constructor(...ranges: Range[]);
+	priority: number;
 }
 declare interface HighlightRegistry {
 	set(name: string, highlight: HighlightClass): void;
@@ -9,9 +12,32 @@ declare interface HighlightRegistry {
 declare interface CSSWithHighlights {
 	highlights: HighlightRegistry;
 }
+// caretPositionFromPoint (Chrome 128+) is not yet in the TS lib either, and
+// the lib marks the WebKit caretRangeFromPoint that older builds have deprecated
+declare interface CaretPositionLike {
+	offsetNode: Node;
+	offset: number;
+}
+declare interface DocumentWithCaretPosition {
+	caretPositionFromPoint?(x: number, y: number): CaretPositionLike | null;
+	caretRangeFromPoint?(x: number, y: number): Range | null;
+}
 
 /** Max chars to backtrack when a sequential word search misses */
 const SEARCH_BACKTRACK_CHARS = 20;
+/** Max chars of unspoken rendered text skipped between two aligned tokens */
+const ALIGN_WINDOW_CHARS = 80;
+/** Following tokens that must match closely before a distant match is trusted */
+const ALIGN_CONFIRM_TOKENS = 2;
+/** CSS highlight names (see styles.css) */
+const WORD_HIGHLIGHT_NAME = "tts-current-word";
+const SENTENCE_HIGHLIGHT_NAME = "tts-current-sentence";
+const SPOKEN_HIGHLIGHT_NAME = "tts-spoken";
+
+/** Class Obsidian puts on rendered MathJax formulas */
+const MATH_ELEMENT_CLASS = "math";
+/** Class for the highlighted word; also set on a formula being spoken */
+const WORD_HIGHLIGHT_CLASS = "tts-word-current";
 
 interface TextNodeEntry {
 	node: Text;
@@ -19,18 +45,65 @@ interface TextNodeEntry {
 	start: number;
 }
 
+interface MathElementEntry {
+	el: HTMLElement;
+	/** Full-text offset where the formula sits (formulas contribute no text) */
+	start: number;
+}
+
+/** Flat text of a rendered element, with its text nodes and formulas */
+interface TextIndex {
+	textNodes: TextNodeEntry[];
+	fullText: string;
+	mathElements: MathElementEntry[];
+}
+
+/** A spoken token located in a section's rendered text */
+interface AlignedToken {
+	plainFrom: number;
+	plainTo: number;
+	/** Offset of the token in the section's full text */
+	domFrom: number;
+}
+
+/** A rendered section with its spoken tokens aligned to its text, in order */
+interface AlignedSection extends TextIndex {
+	target: SectionText;
+	tokens: AlignedToken[];
+}
+
+/** A rendered reading-mode section and the plain text spoken for it */
+export interface SectionText {
+	el: HTMLElement;
+	/** Full plain text of the playback session */
+	text: string;
+	/** Range of `text` spoken for this section */
+	range: PlainRange;
+	/** Ranges of `text` whose spoken words don't appear in the rendered output */
+	substituted: PlainRange[];
+}
+
 /**
  * Handles word highlighting in rendered DOM content (reading mode and
- * Live Preview widgets) using sequential word search.
+ * Live Preview widgets).
  *
- * Instead of mapping editor offsets to DOM positions (which fails because
- * rendered DOM text doesn't include markdown syntax), this walks all text
+ * Rendered DOM text doesn't include markdown syntax, so editor offsets
+ * can't be mapped to it directly. When the rendered section a word belongs
+ * to is known, the section's spoken tokens are aligned in order with its
+ * text and the word is located exactly. Otherwise this walks all text
  * nodes, builds a concatenated text buffer, and finds words sequentially.
  */
 export class ReadingHighlighter {
 	private useCustomHighlight: boolean;
 	private activeMarks: HTMLElement[] = [];
+	private activeMath: HTMLElement | null = null;
 	private highlight: HighlightClass | null = null;
+	private sentenceHighlight: HighlightClass | null = null;
+	private spokenHighlight: HighlightClass | null = null;
+	/** Whether the text already spoken gets its own highlight */
+	private trackSpoken = false;
+	/** Where the first word of the session starts; the spoken highlight runs from here */
+	private spokenStart: { node: Node; offset: number } | null = null;
 
 	/** Cursor tracking sequential position through the DOM text */
 	private searchOffset = 0;
@@ -40,6 +113,14 @@ export class ReadingHighlighter {
 	private fullText = "";
 	/** The container these caches were built for */
 	private cachedContainer: HTMLElement | null = null;
+	/** Rendered formulas in document order */
+	private mathElements: MathElementEntry[] = [];
+	/** Index of the next formula to highlight */
+	private mathIndex = 0;
+	/** Token alignments of rendered sections, built on first use */
+	private alignedSections = new Map<HTMLElement, AlignedSection>();
+	/** Range of the current word highlight */
+	private wordRange: Range | null = null;
 
 	constructor() {
 		this.useCustomHighlight =
@@ -50,10 +131,13 @@ export class ReadingHighlighter {
 
 	/**
 	 * Prepare for a new playback session. Builds the text node index
-	 * for the given container. Call this once at playback start.
+	 * for the given container. Call this once at playback start. With
+	 * `trackSpoken`, the text from the first word up to the current word is
+	 * highlighted as spoken (CSS Custom Highlight API only).
 	 */
-	prepare(container: HTMLElement): void {
+	prepare(container: HTMLElement, trackSpoken = false): void {
 		this.reset();
+		this.trackSpoken = trackSpoken && this.useCustomHighlight;
 		this.buildIndex(container);
 	}
 
@@ -63,7 +147,58 @@ export class ReadingHighlighter {
 		this.textNodes = [];
 		this.fullText = "";
 		this.cachedContainer = null;
+		this.mathElements = [];
+		this.mathIndex = 0;
+		this.alignedSections.clear();
 		this.clear();
+		this.spokenStart = null;
+	}
+
+	/**
+	 * Move the search cursor to just past `spokenText`, which is everything
+	 * spoken before the new position. Tokens are matched in order from the
+	 * start of the container. Used when playback jumps.
+	 */
+	syncTo(container: HTMLElement, spokenText: string): void {
+		if (container !== this.cachedContainer) {
+			this.buildIndex(container);
+		}
+
+		let cursor = 0;
+		for (const token of spokenText.split(/\s+/)) {
+			if (token.length === 0) continue;
+			const idx = this.fullText.indexOf(token, cursor);
+			if (idx !== -1) cursor = idx + token.length;
+		}
+		this.searchOffset = cursor;
+		this.mathIndex = this.mathElements.findIndex((m) => m.start >= cursor);
+		if (this.mathIndex === -1) this.mathIndex = this.mathElements.length;
+	}
+
+	/**
+	 * Resolve a viewport point (e.g. a click) to an offset in `plainText`,
+	 * the text being spoken. The clicked DOM position is located in the
+	 * full text buffer, then plain-text words are aligned to the buffer in
+	 * order until one ends after the click. Returns the start of that word.
+	 */
+	plainOffsetAtPoint(container: HTMLElement, x: number, y: number, plainText: string): number | null {
+		if (container !== this.cachedContainer) {
+			this.buildIndex(container);
+		}
+
+		const domOffset = this.domOffsetAtPoint(x, y, this.textNodes);
+		if (domOffset === null) return null;
+
+		const tokenRe = /\S+/g;
+		let cursor = 0;
+		let match: RegExpExecArray | null;
+		while ((match = tokenRe.exec(plainText))) {
+			const idx = this.fullText.indexOf(match[0], cursor);
+			if (idx === -1) continue;
+			if (idx + match[0].length > domOffset) return match.index;
+			cursor = idx + match[0].length;
+		}
+		return null;
 	}
 
 	/**
@@ -71,7 +206,7 @@ export class ReadingHighlighter {
 	 * Uses sequential search so repeated words are handled correctly.
 	 */
 	highlightWord(container: HTMLElement, word: string): void {
-		this.clear();
+		this.clearWord();
 
 		// Rebuild index if container changed
 		if (container !== this.cachedContainer) {
@@ -97,20 +232,181 @@ export class ReadingHighlighter {
 		this.searchOffset = idx + word.length;
 
 		// Map the found position back to DOM text nodes
-		const domRange = this.createDomRange(idx, idx + word.length);
-		if (!domRange) return;
+		const domRange = this.createDomRange(this.textNodes, idx, idx + word.length);
+		if (domRange) this.showWord(domRange);
+	}
 
-		if (this.useCustomHighlight) {
-			this.applyHighlightCSS(domRange);
+	/**
+	 * Highlight a word of a rendered section by its plain-text range. With
+	 * `searchText` (the source of a substituted word), that text is searched
+	 * for right after the preceding aligned token instead. Returns false if
+	 * the word could not be located.
+	 */
+	highlightWordInSection(target: SectionText, word: PlainRange, searchText?: string): boolean {
+		// Clear first: unwrapping a <mark> fallback invalidates the alignment
+		this.clearWord();
+		const section = this.getAlignedSection(target);
+		let from = -1;
+		let to = -1;
+
+		if (searchText) {
+			const after = this.alignedEndBefore(section, word.from);
+			const idx = section.fullText.indexOf(searchText, after);
+			if (idx === -1 || idx - after > ALIGN_WINDOW_CHARS) return false;
+			from = idx;
+			to = idx + searchText.length;
 		} else {
-			this.applyHighlightMark(domRange);
+			const token = section.tokens.find((t) => t.plainFrom <= word.from && word.from < t.plainTo);
+			if (!token) return false;
+			from = token.domFrom + word.from - token.plainFrom;
+			to = token.domFrom + Math.min(word.to, token.plainTo) - token.plainFrom;
+		}
+
+		const domRange = this.createDomRange(section.textNodes, from, to);
+		if (!domRange) return false;
+		this.showWord(domRange);
+		return true;
+	}
+
+	/** Highlight the `index`-th formula of a rendered section */
+	highlightMathInSection(target: SectionText, index: number): boolean {
+		this.clearWord();
+		const entry = this.getAlignedSection(target).mathElements[index];
+		if (!entry) return false;
+		entry.el.addClass(WORD_HIGHLIGHT_CLASS);
+		this.activeMath = entry.el;
+		this.showSpokenBefore(entry.el);
+		return true;
+	}
+
+	/**
+	 * Highlight a sentence of a rendered section, from its first to its last
+	 * aligned token. Returns false if none of its tokens were located.
+	 */
+	highlightSentenceInSection(target: SectionText, sentence: PlainRange): boolean {
+		this.clearSentence();
+		if (!this.useCustomHighlight) return true;
+
+		const section = this.getAlignedSection(target);
+		const inside = section.tokens.filter((t) => t.plainFrom >= sentence.from && t.plainTo <= sentence.to);
+		if (inside.length === 0) return false;
+
+		const last = inside[inside.length - 1];
+		const domRange = this.createDomRange(
+			section.textNodes,
+			inside[0].domFrom,
+			last.domFrom + last.plainTo - last.plainFrom
+		);
+		if (!domRange) return false;
+		this.showSentence(domRange);
+		return true;
+	}
+
+	/** Resolve a viewport point inside a rendered section to the plain offset of the word there */
+	plainOffsetInSection(target: SectionText, x: number, y: number): number | null {
+		const section = this.getAlignedSection(target);
+		const domOffset = this.domOffsetAtPoint(x, y, section.textNodes);
+		if (domOffset === null) return null;
+
+		const token = section.tokens.find((t) => t.domFrom + t.plainTo - t.plainFrom > domOffset);
+		return token ? token.plainFrom : null;
+	}
+
+	/** Bounding box of the current word highlight, if any */
+	getWordRect(): DOMRect | null {
+		if (this.activeMath) return this.activeMath.getBoundingClientRect();
+		return this.wordRange ? this.wordRange.getBoundingClientRect() : null;
+	}
+
+	/**
+	 * Highlight the next rendered formula at or after the search position.
+	 * MathJax output has no searchable text, so the whole element is marked.
+	 */
+	highlightMath(container: HTMLElement): void {
+		this.clearWord();
+
+		if (container !== this.cachedContainer) {
+			this.buildIndex(container);
 		}
+
+		let i = this.mathIndex;
+		while (i < this.mathElements.length && this.mathElements[i].start < this.searchOffset) i++;
+		const entry = this.mathElements[i];
+		if (!entry) return;
+
+		this.mathIndex = i + 1;
+		this.searchOffset = entry.start;
+		entry.el.addClass(WORD_HIGHLIGHT_CLASS);
+		this.activeMath = entry.el;
+		this.showSpokenBefore(entry.el);
 	}
 
+	/**
+	 * Highlight the sentence about to be spoken, starting at the current
+	 * search position. Each word of the sentence is located in order, so the
+	 * range spans from the first to the last word found. Only supported with
+	 * the CSS Custom Highlight API; `<mark>` wrapping cannot span elements.
+	 */
+	highlightSentence(container: HTMLElement, sentence: string): void {
+		this.clearSentence();
+		if (!this.useCustomHighlight) return;
+
+		if (container !== this.cachedContainer) {
+			this.buildIndex(container);
+		}
+
+		let from = -1;
+		let to = -1;
+		let cursor = this.searchOffset;
+		for (const token of sentence.split(/\s+/)) {
+			if (token.length === 0) continue;
+			const idx = this.fullText.indexOf(token, cursor);
+			if (idx === -1) continue;
+			if (from === -1) from = idx;
+			to = idx + token.length;
+			cursor = to;
+		}
+		if (from === -1) return;
+
+		const domRange = this.createDomRange(this.textNodes, from, to);
+		if (domRange) this.showSentence(domRange);
+	}
+
+	/** Remove all highlights; the spoken highlight returns with the next word */
 	clear(): void {
+		this.clearWord();
+		this.clearSentence();
+		this.clearSpoken();
+	}
+
+	clearSentence(): void {
+		if (!this.sentenceHighlight) return;
+		try {
+			(CSS as unknown as CSSWithHighlights).highlights.delete(SENTENCE_HIGHLIGHT_NAME);
+		} catch (e) {
+			console.debug("TTS Highlight: could not clear sentence highlight", e);
+		}
+		this.sentenceHighlight = null;
+	}
+
+	private clearSpoken(): void {
+		if (!this.spokenHighlight) return;
+		try {
+			(CSS as unknown as CSSWithHighlights).highlights.delete(SPOKEN_HIGHLIGHT_NAME);
+		} catch (e) {
+			console.debug("TTS Highlight: could not clear spoken highlight", e);
+		}
+		this.spokenHighlight = null;
+	}
+
+	private clearWord(): void {
+		this.activeMath?.removeClass(WORD_HIGHLIGHT_CLASS);
+		this.activeMath = null;
+		this.wordRange = null;
+
 		if (this.useCustomHighlight) {
 			try {
-				(CSS as unknown as CSSWithHighlights).highlights.delete("tts-current-word");
+				(CSS as unknown as CSSWithHighlights).highlights.delete(WORD_HIGHLIGHT_NAME);
 			} catch (e) {
 				console.debug("TTS Highlight: could not clear CSS custom highlight", e);
 			}
@@ -127,43 +423,166 @@ export class ReadingHighlighter {
 				parent.normalize();
 			}
 		}
+		// Unwrapping marks merges text nodes, so cached alignments are stale
+		if (this.activeMarks.length > 0) this.alignedSections.clear();
 		this.activeMarks = [];
 	}
 
+	/** Index the container for sequential search */
+	private buildIndex(container: HTMLElement): void {
+		const index = this.collectText(container);
+		this.cachedContainer = container;
+		this.textNodes = index.textNodes;
+		this.fullText = index.fullText;
+		this.mathElements = index.mathElements;
+		this.mathIndex = 0;
+	}
+
 	/**
-	 * Walk all text nodes in the container and build a flat text buffer
+	 * Walk all text nodes in the element and build a flat text buffer
 	 * plus a mapping from buffer offsets back to (textNode, localOffset).
+	 * Rendered formulas are indexed as elements and their text is skipped.
 	 */
-	private buildIndex(container: HTMLElement): void {
-		this.cachedContainer = container;
-		this.textNodes = [];
+	private collectText(root: HTMLElement): TextIndex {
+		const textNodes: TextNodeEntry[] = [];
+		const mathElements: MathElementEntry[] = [];
 		const parts: string[] = [];
 		let offset = 0;
 
-		const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+		const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT, {
+			acceptNode: (n) => {
+				if (n.nodeType === Node.TEXT_NODE) return NodeFilter.FILTER_ACCEPT;
+				if ((n as HTMLElement).hasClass(MATH_ELEMENT_CLASS)) {
+					mathElements.push({ el: n as HTMLElement, start: offset });
+					return NodeFilter.FILTER_REJECT;
+				}
+				return NodeFilter.FILTER_SKIP;
+			},
+		});
 		let node: Text | null;
 		while ((node = walker.nextNode() as Text | null)) {
 			const text = node.textContent ?? "";
 			if (text.length === 0) continue;
-			this.textNodes.push({ node, start: offset });
+			textNodes.push({ node, start: offset });
 			parts.push(text);
 			offset += text.length;
 		}
 
-		this.fullText = parts.join("");
+		return { textNodes, fullText: parts.join(""), mathElements };
+	}
+
+	/** The token alignment of a section, rebuilt when its text or rendering changed */
+	private getAlignedSection(target: SectionText): AlignedSection {
+		const cached = this.alignedSections.get(target.el);
+		if (
+			cached &&
+			cached.target.text === target.text &&
+			cached.target.range.from === target.range.from &&
+			cached.target.range.to === target.range.to &&
+			cached.textNodes.every((entry) => target.el.contains(entry.node))
+		) {
+			return cached;
+		}
+
+		const section = this.alignSection(target);
+		this.alignedSections.set(target.el, section);
+		return section;
+	}
+
+	/**
+	 * Locate the section's spoken tokens in its rendered text, in order.
+	 * Substituted tokens are left out; tokens that can't be found are skipped.
+	 */
+	private alignSection(target: SectionText): AlignedSection {
+		const index = this.collectText(target.el);
+		const { text, range, substituted } = target;
+
+		const plainTokens: PlainRange[] = [];
+		const tokenRe = /\S+/g;
+		tokenRe.lastIndex = range.from;
+		let match: RegExpExecArray | null;
+		while ((match = tokenRe.exec(text)) && match.index < range.to) {
+			const from = match.index;
+			if (substituted.some((r) => r.from <= from && from < r.to)) continue;
+			plainTokens.push({ from, to: from + match[0].length });
+		}
+
+		const tokens: AlignedToken[] = [];
+		let cursor = 0;
+		for (let k = 0; k < plainTokens.length; k++) {
+			const idx = this.matchToken(index.fullText, text, plainTokens, k, cursor);
+			if (idx === -1) continue;
+			tokens.push({ plainFrom: plainTokens[k].from, plainTo: plainTokens[k].to, domFrom: idx });
+			cursor = idx + plainTokens[k].to - plainTokens[k].from;
+		}
+
+		return { ...index, target, tokens };
 	}
 
 	/**
-	 * Create a DOM Range from buffer offsets using the text node index.
+	 * Find plain token `k` in the rendered text at or after `cursor`. A match
+	 * further away than ALIGN_WINDOW_CHARS is only accepted if the following
+	 * tokens match closely after it, so a common word can't pull the
+	 * alignment far ahead.
 	 */
-	private createDomRange(from: number, to: number): Range | null {
+	private matchToken(fullText: string, text: string, plainTokens: PlainRange[], k: number, cursor: number): number {
+		const token = text.substring(plainTokens[k].from, plainTokens[k].to);
+		const idx = fullText.indexOf(token, cursor);
+		if (idx === -1 || idx - cursor <= ALIGN_WINDOW_CHARS) return idx;
+
+		let next = idx + token.length;
+		for (let j = 1; j <= ALIGN_CONFIRM_TOKENS && k + j < plainTokens.length; j++) {
+			const following = text.substring(plainTokens[k + j].from, plainTokens[k + j].to);
+			const followingIdx = fullText.indexOf(following, next);
+			if (followingIdx === -1 || followingIdx - next > ALIGN_WINDOW_CHARS) return -1;
+			next = followingIdx + following.length;
+		}
+		return idx;
+	}
+
+	/** End offset in the section text of the last aligned token before a plain offset */
+	private alignedEndBefore(section: AlignedSection, plainOffset: number): number {
+		let end = 0;
+		for (const token of section.tokens) {
+			if (token.plainFrom >= plainOffset) break;
+			end = token.domFrom + token.plainTo - token.plainFrom;
+		}
+		return end;
+	}
+
+	/** Map a viewport point to an offset in the full text buffer of `textNodes` */
+	private domOffsetAtPoint(x: number, y: number, textNodes: TextNodeEntry[]): number | null {
+		let node: Node | null = null;
+		let offset = 0;
+
+		const doc = document as unknown as DocumentWithCaretPosition;
+		if (doc.caretPositionFromPoint) {
+			const caret = doc.caretPositionFromPoint(x, y);
+			node = caret?.offsetNode ?? null;
+			offset = caret?.offset ?? 0;
+		} else if (doc.caretRangeFromPoint) {
+			// Older Electron builds only have the WebKit variant
+			const caret = doc.caretRangeFromPoint(x, y);
+			node = caret?.startContainer ?? null;
+			offset = caret?.startOffset ?? 0;
+		}
+		if (!node || node.nodeType !== Node.TEXT_NODE) return null;
+
+		const entry = textNodes.find((e) => e.node === node);
+		return entry ? entry.start + offset : null;
+	}
+
+	/**
+	 * Create a DOM Range from buffer offsets using a text node index.
+	 */
+	private createDomRange(textNodes: TextNodeEntry[], from: number, to: number): Range | null {
 		let startNode: Text | null = null;
 		let startOffset = 0;
 		let endNode: Text | null = null;
 		let endOffset = 0;
 
-		for (let i = 0; i < this.textNodes.length; i++) {
-			const entry = this.textNodes[i];
+		for (let i = 0; i < textNodes.length; i++) {
+			const entry = textNodes[i];
 			const nodeLen = entry.node.textContent?.length ?? 0;
 			const nodeEnd = entry.start + nodeLen;
 
@@ -192,11 +611,55 @@ export class ReadingHighlighter {
 		}
 	}
 
+	private showWord(range: Range): void {
+		this.wordRange = range;
+		this.showSpoken(range.startContainer, range.startOffset);
+		if (this.useCustomHighlight) {
+			this.applyHighlightCSS(range);
+		} else {
+			this.applyHighlightMark(range);
+		}
+	}
+
+	private showSentence(range: Range): void {
+		try {
+			const HL = (globalThis as Record<string, unknown>).Highlight as typeof HighlightClass;
+			this.sentenceHighlight = new HL(range);
+			(CSS as unknown as CSSWithHighlights).highlights.set(SENTENCE_HIGHLIGHT_NAME, this.sentenceHighlight);
+		} catch (e) {
+			console.debug("TTS Highlight: could not apply sentence highlight", e);
+		}
+	}
+
+	private showSpokenBefore(el: HTMLElement): void {
+		const parent = el.parentNode;
+		if (parent) this.showSpoken(parent, Array.from(parent.childNodes).indexOf(el));
+	}
+
+	/** Highlight the text from the session's first word up to (node, offset) as spoken */
+	private showSpoken(node: Node, offset: number): void {
+		if (!this.trackSpoken) return;
+		if (!this.spokenStart) this.spokenStart = { node, offset };
+		try {
+			const range = document.createRange();
+			range.setStart(this.spokenStart.node, this.spokenStart.offset);
+			// A position before the start (after a seek back) collapses the range
+			range.setEnd(node, offset);
+			const HL = (globalThis as Record<string, unknown>).Highlight as typeof HighlightClass;
+			this.spokenHighlight = new HL(range);
+			(CSS as unknown as CSSWithHighlights).highlights.set(SPOKEN_HIGHLIGHT_NAME, this.spokenHighlight);
+		} catch (e) {
+			console.debug("TTS Highlight: could not apply spoken highlight", e);
+		}
+	}
+
 	private applyHighlightCSS(range: Range): void {
 		try {
 			const HL = (globalThis as Record<string, unknown>).Highlight as typeof HighlightClass;
 			this.highlight = new HL(range);
-			(CSS as unknown as CSSWithHighlights).highlights.set("tts-current-word", this.highlight);
+			// Draw the word above the sentence highlight
+			this.highlight.priority = 1;
+			(CSS as unknown as CSSWithHighlights).highlights.set(WORD_HIGHLIGHT_NAME, this.highlight);
 		} catch (e) {
 			console.debug("TTS Highlight: CSS custom highlight failed, falling back to mark", e);
 			this.applyHighlightMark(range);
@@ -206,7 +669,7 @@ export class ReadingHighlighter {
 	private applyHighlightMark(range: Range): void {
 		try {
 			const mark = document.createElement("mark");
-			mark.className = "tts-word-current";
+			mark.className = WORD_HIGHLIGHT_CLASS;
 			range.surroundContents(mark);
 			this.activeMarks.push(mark);
 		} catch (e) {
@@ -220,7 +683,7 @@ export class ReadingHighlighter {
 					const word = textNode.splitText(range.startOffset);
 					word.splitText(range.endOffset - range.startOffset);
 					const mark = document.createElement("mark");
-					mark.className = "tts-word-current";
+					mark.className = WORD_HIGHLIGHT_CLASS;
 					word.parentNode?.replaceChild(mark, word);
 					mark.appendChild(word);
 					this.activeMarks.push(mark);
@@ -0,0 +1,96 @@
+import type { MarkdownView } from "obsidian";
+import type { ReadingSection, ReadingTarget } from "../types";
+
+/** Internal shape of a rendered reading-mode section (not part of the public API) */
+interface PreviewSectionInternal {
+	el: HTMLElement;
+	/** First source line of the section (0-based) */
+	lineStart: number;
+	/** Last source line of the section, inclusive */
+	lineEnd: number;
+}
+
+/** Internal shape of the reading-mode renderer (not part of the public API) */
+interface PreviewRendererInternal {
+	sections?: PreviewSectionInternal[];
+}
+
+/** What the section offsets were computed from; any change means they are stale */
+interface SectionsKey {
+	sections: PreviewSectionInternal[];
+	count: number;
+	lastLineEnd: number;
+	/** The editor's CM6 document, which is replaced on every edit */
+	doc: unknown;
+}
+
+/**
+ * The reading view of `view` as a playback target. Sections come from the
+ * renderer's source line info, converted to editor offsets. They are built
+ * when first asked for and rebuilt only when asked for again after the note
+ * was re-rendered or edited, and only while the view is in reading mode:
+ * edits made in source mode just leave the cached sections until then.
+ */
+export function createReadingTarget(view: MarkdownView, container: HTMLElement): ReadingTarget {
+	let key: SectionsKey | null = null;
+	let sections: ReadingSection[] = [];
+	const getSections = (): ReadingSection[] => {
+		if (key && view.getMode() !== "preview") return sections;
+		const current = sectionsKey(view);
+		if (!key || !sameKey(key, current)) {
+			key = current;
+			sections = getReadingSections(view, current.sections);
+		}
+		return sections;
+	};
+
+	return {
+		container,
+		getSections,
+		sectionAt: (offset: number) => findSection(getSections(), offset),
+		scrollToOffset: (offset: number) => {
+			view.previewMode.applyScroll(view.editor.offsetToPos(offset).line);
+		},
+	};
+}
+
+function sectionsKey(view: MarkdownView): SectionsKey {
+	const renderer = (view.previewMode as unknown as { renderer?: PreviewRendererInternal }).renderer;
+	const sections = renderer?.sections ?? [];
+	return {
+		sections,
+		count: sections.length,
+		lastLineEnd: sections.length > 0 ? sections[sections.length - 1].lineEnd : -1,
+		doc: (view.editor as unknown as { cm?: { state: { doc: unknown } } }).cm?.state.doc,
+	};
+}
+
+function sameKey(a: SectionsKey, b: SectionsKey): boolean {
+	return a.sections === b.sections && a.count === b.count && a.lastLineEnd === b.lastLineEnd && a.doc === b.doc;
+}
+
+function getReadingSections(view: MarkdownView, sections: PreviewSectionInternal[]): ReadingSection[] {
+	const editor = view.editor;
+	const lastLine = editor.lastLine();
+	// From the line index rather than getValue(), which copies the whole note
+	const docLength = editor.posToOffset({ line: lastLine, ch: editor.getLine(lastLine).length });
+
+	return sections.map((section) => ({
+		el: section.el,
+		from: editor.posToOffset({ line: Math.min(section.lineStart, lastLine), ch: 0 }),
+		to: section.lineEnd >= lastLine ? docLength : editor.posToOffset({ line: section.lineEnd + 1, ch: 0 }),
+	}));
+}
+
+/** The section containing an editor offset (binary search; sections are in document order) */
+function findSection(sections: ReadingSection[], offset: number): ReadingSection | null {
+	let lo = 0;
+	let hi = sections.length;
+	while (lo < hi) {
+		const mid = (lo + hi) >> 1;
+		if (sections[mid].to <= offset) lo = mid + 1;
+		else hi = mid;
+	}
+	const section = sections[lo];
+	return section && section.from <= offset ? section : null;
+}
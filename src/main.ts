@@ -1,22 +1,81 @@
 import {
 	Plugin,
 	MarkdownView,
+	Menu,
 	Notice,
+	TFile,
+	normalizePath,
+	TFolder,
+	resolveSubpath,
+	type ObsidianProtocolData,
 	type Editor,
+	type HeadingCache,
+	type TAbstractFile,
+	type WorkspaceLeaf,
 } from "obsidian";
 import { EditorView } from "@codemirror/view";
 import { DEFAULT_SETTINGS } from "./types";
-import type { TTSSettings } from "./types";
+import type { TTSSettings, PluginData, EmbeddedNotes, ReadingTarget } from "./types";
 import { TTSSettingTab } from "./settings";
+import { ReadingPositionStore } from "./ReadingPositionStore";
 import { PlaybackController } from "./tts/PlaybackController";
 import { SpeechEngine } from "./tts/SpeechEngine";
-import { ttsHighlightExtension, setDocChangeCallback } from "./editor/highlightExtension";
+import { ttsHighlightExtension, setDocChangeCallback, setEditorClickCallback } from "./editor/highlightExtension";
+import { createReadingTarget } from "./editor/readingSections";
 import { StatusBarControl } from "./ui/StatusBarControl";
+import { ReadingQueueModal } from "./ui/ReadingQueueModal";
+import { FolderSuggestModal } from "./ui/FolderSuggestModal";
+import { PlayerView, PLAYER_VIEW_TYPE } from "./ui/PlayerView";
+import { ReadingQueue } from "./queue/ReadingQueue";
+import { TimingRecorder } from "./tts/TimingRecorder";
+import { formatSubtitles } from "./tts/subtitles";
+import { resolveEmbeds } from "./tts/embeds";
+import { applyNoteOverrides, readNoteOverrides } from "./noteSettings";
+import { TTSHighlightApi } from "./api";
+import { parseReadUri, type ReadUriRequest } from "./readUri";
+import { enclosingSection, headingSection } from "./noteSections";
+import { outlineHeadingAt } from "./ui/outlineHeadings";
+import {
+	getFolderNotes,
+	getSearchResultNotes,
+	getOutgoingLinkNotes,
+	getBacklinkNotes,
+	getSelectedNotes,
+} from "./queue/queueSources";
+
+/** Step and limits of the speed and volume commands, matching the settings sliders */
+const VOICE_STEPS: Record<"rate" | "volume", { step: number; min: number; max: number }> = {
+	rate: { step: 0.1, min: 0.5, max: 2.0 },
+	volume: { step: 0.1, min: 0.0, max: 1.0 },
+};
+
+/** Body classes for the spoken text styles */
+const SPOKEN_STYLE_CLASSES = ["tts-spoken-dim", "tts-spoken-tint"];
+
+/** Voice, rate or volume changes to the current playback */
+type VoiceChanges = Partial<Pick<TTSSettings, "voice" | "rate" | "volume">>;
 
 export default class TTSHighlightPlugin extends Plugin {
 	settings: TTSSettings = DEFAULT_SETTINGS;
 	private controller: PlaybackController = new PlaybackController();
+	/** API for other plugins and scripts */
+	api: TTSHighlightApi = new TTSHighlightApi(this.app, this.controller, this);
 	private statusBar: StatusBarControl | null = null;
+	private positions: ReadingPositionStore = new ReadingPositionStore({});
+	/** The note being read and the content/mtime that editor offsets refer to */
+	private readingSession: { file: TFile; content: string; mtime: number } | null = null;
+	/** Settings the current playback takes from its note or URI rather than from the saved settings */
+	private sessionOverrides: Partial<TTSSettings> = {};
+	private queue: ReadingQueue = new ReadingQueue();
+	/** True while reading a queued note without an open view */
+	private backgroundPlayback = false;
+	/** True while the plugin opens a note to read, so the leaf change doesn't stop playback */
+	private openingNote = false;
+	/** Outline pane containers that have the "Read this section" menu */
+	private watchedOutlines = new WeakSet<HTMLElement>();
+	private recorder: TimingRecorder = new TimingRecorder();
+	/** The note the recorder's timings belong to */
+	private recordedFile: TFile | null = null;
 
 	async onload(): Promise<void> {
 		await this.loadSettings();
@@ -27,36 +86,64 @@ export default class TTSHighlightPlugin extends Plugin {
 		// Register CM6 extension for source/live-preview highlighting
 		this.registerEditorExtension(ttsHighlightExtension);
 
-		// Stop playback when document is edited
-		setDocChangeCallback(() => {
-			if (this.controller.getState() !== "idle") {
-				this.controller.stop();
-				new Notice("Playback stopped: document was edited.");
+		// Keep playing through edits of the note being read
+		setDocChangeCallback((view, changes) => {
+			this.controller.applyEdit(view, changes);
+			if (this.readingSession && this.controller.isReading(view)) {
+				this.readingSession.content = view.state.doc.toString();
 			}
 		});
 
+		// Click a word to move playback there (source / live preview)
+		setEditorClickCallback((view, pos, event) => {
+			if (!this.isSeekClick(event)) return false;
+			return this.controller.seekToEditorOffset(view, pos);
+		});
+
+		// Click a word to move playback there (reading mode)
+		this.registerDomEvent(document, "click", (event: MouseEvent) => {
+			if (!this.isSeekClick(event)) return;
+			this.controller.seekToReadingPoint(event);
+		});
+
 		// Setup controller callbacks
-		this.controller.setStateChangeCallback((state, chunk, total) => {
-			this.statusBar?.update(state, chunk, total);
+		this.controller.setTimingRecorder(this.recorder);
+		this.controller.setStateChangeCallback((state, progress) => {
+			this.statusBar?.update(state, progress);
+			this.statusBar?.setRate(this.controller.getSettings()?.rate ?? this.settings.rate);
+			this.refreshPlayers();
+			this.api.notifyState(state, progress);
 		});
+		this.controller.setHighlightCallback((range) => this.api.notifyHighlight(range));
 
-		this.controller.setEndCallback(() => {
-			this.statusBar?.update("idle", 0, 0);
+		this.controller.setEndCallback((finished) => {
+			this.statusBar?.update("idle", null);
+			this.saveReadingPosition(finished);
+			this.backgroundPlayback = false;
+			this.api.notifyEnd(finished);
+			if (!this.queue.getNowReading()) return;
+			if (finished) {
+				this.queue.finish();
+				void this.playNextInQueue();
+			} else {
+				this.queue.interrupt();
+			}
 		});
 
 		// Status bar
-		this.statusBar = new StatusBarControl(
-			this,
-			() => this.controller.togglePause(),
-			() => this.controller.stop()
-		);
+		this.statusBar = new StatusBarControl(this, {
+			onPause: () => this.controller.togglePause(),
+			onStop: () => this.controller.stop(),
+			onRate: (direction) => this.stepVoice("rate", direction),
+			onVolume: (direction) => this.stepVoice("volume", direction),
+		});
 
 		// Commands
 		this.addCommand({
 			id: "read-aloud",
 			name: "Read aloud",
 			editorCallback: (editor: Editor, view: MarkdownView) => {
-				this.readAloud(view, "full");
+				void this.readAloud(view, "full");
 			},
 		});
 
@@ -64,7 +151,7 @@ export default class TTSHighlightPlugin extends Plugin {
 			id: "read-from-cursor",
 			name: "Read from cursor",
 			editorCallback: (editor: Editor, view: MarkdownView) => {
-				this.readAloud(view, "cursor");
+				void this.readAloud(view, "cursor");
 			},
 		});
 
@@ -72,7 +159,25 @@ export default class TTSHighlightPlugin extends Plugin {
 			id: "read-selection-aloud",
 			name: "Read selection aloud",
 			editorCallback: (editor: Editor, view: MarkdownView) => {
-				this.readAloud(view, "selection");
+				void this.readAloud(view, "selection");
+			},
+		});
+
+		this.addCommand({
+			id: "read-current-section",
+			name: "Read current section",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				const offset = editor.posToOffset(editor.getCursor());
+				const section = enclosingSection(this.headingsOf(view.file), offset, editor.getValue().length);
+				void this.readAloud(view, "range", section);
+			},
+		});
+
+		this.addCommand({
+			id: "resume-reading",
+			name: "Resume reading",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.resumeReading(view);
 			},
 		});
 
@@ -82,7 +187,7 @@ export default class TTSHighlightPlugin extends Plugin {
 			callback: () => {
 				if (this.controller.getState() === "idle") {
 					const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-					if (view) this.readAloud(view, "full");
+					if (view) void this.readAloud(view, "full");
 				} else {
 					this.controller.togglePause();
 				}
@@ -97,61 +202,737 @@ export default class TTSHighlightPlugin extends Plugin {
 			},
 		});
 
+		this.addSkipCommand("next-sentence", "Next sentence", () => this.controller.skipSentence(1));
+		this.addSkipCommand("previous-sentence", "Previous sentence", () => this.controller.skipSentence(-1));
+		this.addSkipCommand("next-paragraph", "Next paragraph", () => this.controller.skipParagraph(1));
+		this.addSkipCommand("previous-paragraph", "Previous paragraph", () => this.controller.skipParagraph(-1));
+
+		this.addSkipCommand("speed-up", "Speed up", () => this.stepVoice("rate", 1));
+		this.addSkipCommand("slow-down", "Slow down", () => this.stepVoice("rate", -1));
+		this.addSkipCommand("volume-up", "Volume up", () => this.stepVoice("volume", 1));
+		this.addSkipCommand("volume-down", "Volume down", () => this.stepVoice("volume", -1));
+
 		// Ribbon icon
 		this.addRibbonIcon("audio-lines", "TTS highlight", () => {
 			if (this.controller.getState() !== "idle") {
 				this.controller.stop();
 			} else {
 				const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-				if (view) {
-					this.readAloud(view, "full");
+				if (view?.file && this.settings.rememberPosition && this.positions.has(view.file.path)) {
+					this.resumeReading(view);
+				} else if (view) {
+					void this.readAloud(view, "full");
 				} else {
 					new Notice("Open a note to read aloud.");
 				}
 			}
 		});
 
+		this.addCommand({
+			id: "export-timing-track",
+			name: "Export timing track",
+			callback: () => void this.exportTimingTrack(),
+		});
+
+		// Before the queue's "Add to reading queue" so reading comes first in the menus
+		this.registerContextMenus();
+		this.registerQueueCommands();
+
+		// obsidian://tts-highlight?file=...&heading=...&block=...&rate=...
+		this.registerObsidianProtocolHandler("tts-highlight", (params) => void this.readFromUri(params));
+
+		// Player panel
+		this.registerView(PLAYER_VIEW_TYPE, (leaf) => new PlayerView(leaf, this.controller, this));
+		this.addCommand({
+			id: "open-player",
+			name: "Open player",
+			callback: () => void this.openPlayer(),
+		});
+
 		// Stop on note switch
 		this.registerEvent(
-			this.app.workspace.on("active-leaf-change", () => {
+			this.app.workspace.on("active-leaf-change", (leaf) => {
+				if (this.openingNote || this.backgroundPlayback) return;
+				// Using the player panel doesn't switch away from the note
+				if (leaf?.view.getViewType() === PLAYER_VIEW_TYPE) return;
 				if (this.controller.getState() !== "idle") {
 					this.controller.stop();
 				}
 			})
 		);
 
+		// Keep saved reading positions attached to their notes
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				if (this.positions.rename(oldPath, file.path)) void this.saveSettings();
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => {
+				if (file instanceof TFile) this.queue.removeFile(file);
+				if (this.positions.delete(file.path)) void this.saveSettings();
+			})
+		);
+
 		// Settings tab
 		this.addSettingTab(new TTSSettingTab(this.app, this));
 
-		// Apply custom highlight color on load
+		// Apply custom highlight colors on load
 		if (this.settings.highlightColor) {
 			document.body.style.setProperty("--tts-highlight-color", this.settings.highlightColor);
 		}
+		if (this.settings.sentenceHighlightColor) {
+			document.body.style.setProperty("--tts-sentence-color", this.settings.sentenceHighlightColor);
+		}
+		if (this.settings.spokenColor) {
+			document.body.style.setProperty("--tts-spoken-color", this.settings.spokenColor);
+		}
+		this.applySpokenStyle();
 	}
 
 	onunload(): void {
 		this.controller.stop();
 		setDocChangeCallback(null);
+		setEditorClickCallback(null);
 		this.statusBar?.destroy();
 		document.body.style.removeProperty("--tts-highlight-color");
+		document.body.style.removeProperty("--tts-sentence-color");
+		document.body.style.removeProperty("--tts-spoken-color");
+		document.body.removeClass(...SPOKEN_STYLE_CLASSES);
+	}
+
+	/** Set the body class that styles text already spoken (see styles.css) */
+	applySpokenStyle(): void {
+		document.body.removeClass(...SPOKEN_STYLE_CLASSES);
+		if (this.settings.spokenStyle !== "off") document.body.addClass(`tts-spoken-${this.settings.spokenStyle}`);
 	}
 
 	async loadSettings(): Promise<void> {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData() as Partial<TTSSettings>);
+		const { readingPositions, ...settings } = (await this.loadData() as Partial<PluginData> | null) ?? {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, settings, {
+			// Copied so editing the lists never changes the defaults
+			pronunciations: [...(settings.pronunciations ?? DEFAULT_SETTINGS.pronunciations)],
+			languageVoices: [...(settings.languageVoices ?? DEFAULT_SETTINGS.languageVoices)],
+		});
+		this.positions = new ReadingPositionStore(readingPositions ?? {});
 	}
 
+	/** Persist settings together with the saved reading positions */
 	async saveSettings(): Promise<void> {
-		await this.saveData(this.settings);
+		const data: PluginData = { ...this.settings, readingPositions: this.positions.toJSON() };
+		await this.saveData(data);
+	}
+
+	/** Save (or clear, once the note was read to the end) the position of the session that just ended */
+	private saveReadingPosition(finished: boolean): void {
+		const session = this.readingSession;
+		this.readingSession = null;
+		if (!session || !this.settings.rememberPosition) return;
+
+		const offset = this.controller.getLastEditorOffset();
+		if (finished) {
+			this.positions.delete(session.file.path);
+		} else if (offset !== null) {
+			this.positions.set(session.file.path, offset, session.content, session.mtime);
+		} else {
+			return;
+		}
+		void this.saveSettings();
+	}
+
+	private resumeReading(view: MarkdownView): void {
+		const file = view.file;
+		if (!file) return;
+
+		const offset = this.positions.resolve(file.path, view.editor.getValue(), file.stat.mtime);
+		void this.saveSettings();
+		if (offset === null) {
+			new Notice("No saved reading position for this note.");
+			return;
+		}
+		void this.readAloud(view, "cursor", { from: offset });
+	}
+
+	/** Reading entries in the editor, file explorer and outline context menus */
+	private registerContextMenus(): void {
+		this.registerEvent(
+			this.app.workspace.on("editor-menu", (menu, editor, info) => {
+				if (info instanceof MarkdownView) this.addEditorMenuItems(menu, editor, info);
+			})
+		);
+
+		this.registerEvent(
+			this.app.workspace.on("file-menu", (menu, file: TAbstractFile) => {
+				if (!(file instanceof TFile) || file.extension !== "md") return;
+				menu.addItem((item) =>
+					item
+						.setTitle("Read note aloud")
+						.setIcon("audio-lines")
+						.onClick(() => void this.readFile(file))
+				);
+			})
+		);
+
+		this.registerEvent(
+			this.app.workspace.on("files-menu", (menu, files: TAbstractFile[]) => {
+				const notes = files.filter((f): f is TFile => f instanceof TFile && f.extension === "md");
+				if (notes.length === 0) return;
+				menu.addItem((item) =>
+					item
+						.setTitle("Read notes aloud")
+						.setIcon("audio-lines")
+						.onClick(() => void this.readNotes(notes))
+				);
+			})
+		);
+
+		// The core outline has no menu event to hook into, so outline panes get
+		// a context menu listener of their own, also when opened later
+		this.app.workspace.onLayoutReady(() => this.watchOutlines());
+		this.registerEvent(this.app.workspace.on("layout-change", () => this.watchOutlines()));
+	}
+
+	/** Add the "Read this section" menu to outline panes that don't have it yet */
+	private watchOutlines(): void {
+		for (const leaf of this.app.workspace.getLeavesOfType("outline")) {
+			const container = leaf.view.containerEl;
+			if (this.watchedOutlines.has(container)) continue;
+			this.watchedOutlines.add(container);
+			this.registerDomEvent(container, "contextmenu", (evt) => this.showOutlineMenu(leaf, evt));
+		}
+	}
+
+	private showOutlineMenu(leaf: WorkspaceLeaf, evt: MouseEvent): void {
+		const target = evt.target instanceof HTMLElement ? outlineHeadingAt(this.app, leaf, evt.target) : null;
+		if (!target) return;
+		// Menu.forEvent (app 1.6+) shares one menu between everyone handling the
+		// click; before that, leave the click alone when another handler took it
+		const shared = typeof Menu.forEvent === "function";
+		if (!shared && evt.defaultPrevented) return;
+		evt.preventDefault();
+		const menu = shared ? Menu.forEvent(evt) : new Menu();
+		menu.addItem((item) =>
+			item
+				.setTitle("Read this section")
+				.setIcon("audio-lines")
+				.onClick(() => void this.readOutlineHeading(target.file, target.index))
+		);
+		menu.showAtMouseEvent(evt);
 	}
 
-	private readAloud(view: MarkdownView, mode: "full" | "selection" | "cursor"): void {
+	/**
+	 * "Read from here", "Read selection", "Read this paragraph" and, on a
+	 * heading, "Read this section"
+	 */
+	private addEditorMenuItems(menu: Menu, editor: Editor, view: MarkdownView): void {
+		const line = editor.getCursor().line;
+		const length = editor.getValue().length;
+		menu.addItem((item) =>
+			item.setTitle("Read from here").setIcon("audio-lines").onClick(() => void this.readAloud(view, "cursor"))
+		);
+		if (editor.somethingSelected()) {
+			menu.addItem((item) =>
+				item.setTitle("Read selection").setIcon("audio-lines").onClick(() => void this.readAloud(view, "selection"))
+			);
+		}
+
+		const sections = view.file ? this.app.metadataCache.getFileCache(view.file)?.sections ?? [] : [];
+		const paragraph = sections.find(
+			(s) => s.type !== "yaml" && s.position.start.line <= line && s.position.end.line >= line
+		);
+		if (paragraph) {
+			const range = { from: paragraph.position.start.offset, to: Math.min(paragraph.position.end.offset, length) };
+			menu.addItem((item) =>
+				item.setTitle("Read this paragraph").setIcon("audio-lines").onClick(() => void this.readAloud(view, "range", range))
+			);
+		}
+
+		const headings = this.headingsOf(view.file);
+		const index = headings.findIndex((h) => h.position.start.line === line);
+		if (index >= 0) {
+			menu.addItem((item) =>
+				item
+					.setTitle("Read this section")
+					.setIcon("audio-lines")
+					.onClick(() => void this.readAloud(view, "range", headingSection(headings, index, length)))
+			);
+		}
+	}
+
+	/** Read selected notes in order, ahead of anything already queued */
+	private async readNotes(files: TFile[]): Promise<void> {
+		// Stop first so an interrupted queued note goes back behind these
+		this.controller.stop();
+		this.queue.prepend(files);
+		await this.playNextInQueue();
+	}
+
+	private async readOutlineHeading(file: TFile, index: number): Promise<void> {
+		const view = await this.openNote(file);
+		if (!view) return;
+		const section = headingSection(this.headingsOf(file), index, view.editor.getValue().length);
+		await this.readAloud(view, "range", section);
+	}
+
+	private headingsOf(file: TFile | null): HeadingCache[] {
+		return file ? this.app.metadataCache.getFileCache(file)?.headings ?? [] : [];
+	}
+
+	private registerQueueCommands(): void {
+		this.addCommand({
+			id: "show-reading-queue",
+			name: "Show reading queue",
+			callback: () => this.openQueueModal(),
+		});
+
+		this.addCommand({
+			id: "play-reading-queue",
+			name: "Play reading queue",
+			checkCallback: (checking: boolean) => {
+				if (this.queue.getItems().length === 0 || this.queue.getNowReading()) return false;
+				if (!checking) void this.playNextInQueue();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "skip-queue-item",
+			name: "Skip to next note in queue",
+			checkCallback: (checking: boolean) => {
+				if (!this.queue.getNowReading()) return false;
+				if (!checking) this.skipQueueItem();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "clear-reading-queue",
+			name: "Clear reading queue",
+			callback: () => {
+				this.queue.clear();
+				new Notice("Reading queue cleared.");
+			},
+		});
+
+		this.addCommand({
+			id: "queue-folder",
+			name: "Add folder to reading queue",
+			callback: () => {
+				new FolderSuggestModal(this.app, (folder) => {
+					this.enqueue(getFolderNotes(folder));
+				}).open();
+			},
+		});
+
+		this.addCommand({
+			id: "queue-search-results",
+			name: "Add search results to reading queue",
+			callback: () => this.enqueue(getSearchResultNotes(this.app)),
+		});
+
+		this.addCommand({
+			id: "queue-outgoing-links",
+			name: "Add outgoing links to reading queue",
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) return false;
+				if (!checking) this.enqueue(getOutgoingLinkNotes(this.app, file));
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "queue-backlinks",
+			name: "Add backlinks to reading queue",
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) return false;
+				if (!checking) this.enqueue(getBacklinkNotes(this.app, file));
+				return true;
+			},
+		});
+
+		this.registerEvent(
+			this.app.workspace.on("file-menu", (menu, file: TAbstractFile) => {
+				if (!(file instanceof TFolder) && !(file instanceof TFile && file.extension === "md")) return;
+				menu.addItem((item) =>
+					item
+						.setTitle("Add to reading queue")
+						.setIcon("list-plus")
+						.onClick(() => this.enqueue(getSelectedNotes([file])))
+				);
+			})
+		);
+
+		this.registerEvent(
+			this.app.workspace.on("files-menu", (menu, files: TAbstractFile[]) => {
+				// Only offer it when the selection holds notes, directly or in its folders
+				const notes = getSelectedNotes(files);
+				if (notes.length === 0) return;
+				menu.addItem((item) =>
+					item
+						.setTitle("Add to reading queue")
+						.setIcon("list-plus")
+						.onClick(() => this.enqueue(notes))
+				);
+			})
+		);
+	}
+
+	private openQueueModal(): void {
+		new ReadingQueueModal(
+			this.app,
+			this.queue,
+			() => void this.playNextInQueue(),
+			() => this.skipQueueItem()
+		).open();
+	}
+
+	private enqueue(files: TFile[]): void {
+		if (files.length === 0) {
+			new Notice("No notes to add to the reading queue.");
+			return;
+		}
+		const added = this.queue.add(files);
+		new Notice(`Added ${added} ${added === 1 ? "note" : "notes"} to the reading queue.`);
+	}
+
+	/** Stop the queued note being read and move on to the next one */
+	private skipQueueItem(): void {
+		// Finish first so stopping doesn't put the note back on the queue
+		this.queue.finish();
+		this.controller.stop();
+		void this.playNextInQueue();
+	}
+
+	/** Take the next note off the queue and read it, opened or in the background */
+	private async playNextInQueue(): Promise<void> {
+		// End any current session first so its end callback can't touch the new queue entry
+		this.controller.stop();
+		const file = this.queue.next();
+		if (!file) {
+			new Notice("Reading queue finished.");
+			return;
+		}
+
+		if (this.settings.queueOpenNotes) {
+			const leaf = this.app.workspace.getLeaf(false);
+			this.openingNote = true;
+			try {
+				await leaf.openFile(file);
+			} finally {
+				this.openingNote = false;
+			}
+			if (leaf.view instanceof MarkdownView) {
+				await this.readAloud(leaf.view, "full");
+				this.skipIfNothingPlayed();
+				return;
+			}
+		}
+
+		await this.readInBackground(file);
+		this.skipIfNothingPlayed();
+	}
+
+	/**
+	 * Read a note without an open view, and so without highlighting, from
+	 * an offset or else from its `tts-start-heading`.
+	 */
+	private async readInBackground(file: TFile, from?: number): Promise<void> {
+		const content = await this.app.vault.cachedRead(file);
+		const { settings, startHeading, overrides } = this.getNoteSettings(file);
+		const start = from ?? (startHeading ? this.findStartHeading(file, startHeading) : 0);
+		const text = content.substring(start);
+		const embeds = await this.resolveNoteEmbeds(file, text);
+		this.controller.play(text, settings, null, null, start, embeds);
+		this.sessionOverrides = overrides;
+		this.backgroundPlayback = true;
+		this.readingSession = { file, content, mtime: file.stat.mtime };
+		this.recordedFile = file;
+	}
+
+	/** Read a note in an editor already showing it, else in the background */
+	async readFile(file: TFile, from?: number): Promise<void> {
+		const leaf = this.app.workspace.getLeavesOfType("markdown")
+			.find((l) => l.view instanceof MarkdownView && l.view.file === file);
+		if (leaf?.view instanceof MarkdownView) {
+			await this.readAloud(leaf.view, from === undefined ? "full" : "cursor", { from });
+		} else {
+			await this.readInBackground(file, from);
+		}
+	}
+
+	/** Open the note named by a `tts-highlight` URI and read it from its heading or block */
+	private async readFromUri(params: ObsidianProtocolData): Promise<void> {
+		const request = parseReadUri(params);
+		if (request.errors.length > 0) new Notice(`TTS Highlight link: ${request.errors.join("; ")}.`);
+		if (request.file === null) return;
+		const file = this.app.metadataCache.getFirstLinkpathDest(request.file, "");
+		if (!file || file.extension !== "md") {
+			new Notice(`Note "${request.file}" was not found.`);
+			return;
+		}
+
+		const from = this.resolveUriTarget(file, request);
+		if (from === null) return;
+		const view = await this.openNote(file);
+		if (!view) return;
+		const overrides = request.rate !== null ? { rate: request.rate } : {};
+		await this.readAloud(view, from === undefined ? "full" : "cursor", { from }, overrides);
+	}
+
+	/** Focus the editor showing a note, opening it in the current tab when none does */
+	private async openNote(file: TFile): Promise<MarkdownView | null> {
+		const open = this.app.workspace.getLeavesOfType("markdown")
+			.find((l) => l.view instanceof MarkdownView && l.view.file === file);
+		const leaf = open ?? this.app.workspace.getLeaf(false);
+		this.openingNote = true;
+		try {
+			if (open) this.app.workspace.setActiveLeaf(open, { focus: true });
+			else await leaf.openFile(file);
+		} finally {
+			this.openingNote = false;
+		}
+		return leaf.view instanceof MarkdownView ? leaf.view : null;
+	}
+
+	/**
+	 * Editor offset of the heading or block a URI names, undefined when it
+	 * names neither, or null with a notice when it is not in the note.
+	 */
+	private resolveUriTarget(file: TFile, request: ReadUriRequest): number | null | undefined {
+		const target = request.heading ?? (request.block !== null ? `^${request.block}` : null);
+		if (target === null) return undefined;
+		const cache = this.app.metadataCache.getFileCache(file);
+		const result = cache ? resolveSubpath(cache, `#${target}`) : null;
+		if (result) return result.start.offset;
+		new Notice(`"${target}" was not found in ${file.basename}.`);
+		return null;
+	}
+
+	/** Speak markdown text that does not belong to a note */
+	speakText(text: string): void {
+		this.controller.play(text, this.settings, null, null, 0, {});
+		// Set after play(), which ends the previous session
+		this.sessionOverrides = {};
+		this.backgroundPlayback = true;
+		this.readingSession = null;
+		this.recordedFile = null;
+	}
+
+	/** Move past a queued note that had nothing to read */
+	private skipIfNothingPlayed(): void {
+		if (this.controller.getState() !== "idle") return;
+		this.queue.finish();
+		void this.playNextInQueue();
+	}
+
+	/** Write the recorded word timings of the last session next to its note as subtitles */
+	private async exportTimingTrack(): Promise<void> {
+		const file = this.recordedFile;
+		if (!file || !this.recorder.hasRecording()) {
+			new Notice("Nothing recorded yet. Read a note aloud first.");
+			return;
+		}
+
+		const format = this.settings.subtitleFormat;
+		const content = formatSubtitles(this.recorder.getCues(), format);
+		const path = normalizePath(`${file.parent?.path ?? ""}/${file.basename}.${format}`);
+
+		try {
+			const existing = this.app.vault.getAbstractFileByPath(path);
+			if (existing instanceof TFile) {
+				await this.app.vault.modify(existing, content);
+			} else {
+				await this.app.vault.create(path, content);
+			}
+			new Notice(`Timing track saved to ${path}.`);
+		} catch (e) {
+			console.error("TTS Highlight: could not write timing track", e);
+			new Notice("Could not save the timing track.");
+		}
+	}
+
+	/**
+	 * Settings for reading a specific note. Scoped pronunciation entries only
+	 * apply when the note lists their scope in its `tts-dictionary` frontmatter,
+	 * a `lang` property replaces the default language, and `tts-*` properties
+	 * override single settings, also returned as `overrides`. Invalid `tts-*`
+	 * values are reported in a notice.
+	 */
+	private getNoteSettings(file: TFile | null): {
+		settings: TTSSettings;
+		startHeading: string | null;
+		overrides: Partial<TTSSettings>;
+	} {
+		const frontmatter = file ? this.app.metadataCache.getFileCache(file)?.frontmatter : undefined;
+		const listed: unknown = frontmatter?.["tts-dictionary"];
+		const scopes = (Array.isArray(listed) ? listed : [listed]).filter(
+			(s): s is string => typeof s === "string"
+		);
+		const lang: unknown = frontmatter?.lang;
+
+		const voices = SpeechEngine.getVoices();
+		const overrides = readNoteOverrides(frontmatter, voices);
+		if (file && overrides.errors.length > 0) {
+			new Notice(`Invalid frontmatter in ${file.basename}: ${overrides.errors.join("; ")}. The plugin settings are used instead.`);
+		}
+
+		return {
+			settings: {
+				...applyNoteOverrides(this.settings, overrides.settings, voices),
+				pronunciations: this.settings.pronunciations.filter(
+					(entry) => !entry.scope || scopes.includes(entry.scope)
+				),
+				defaultLanguage: typeof lang === "string" && lang.trim() ? lang.trim() : this.settings.defaultLanguage,
+			},
+			startHeading: overrides.startHeading,
+			overrides: overrides.settings,
+		};
+	}
+
+	/** Offset of the note heading named by `tts-start-heading`, or 0 with a notice when it is missing */
+	private findStartHeading(file: TFile | null, heading: string): number {
+		const headings = this.headingsOf(file);
+		const wanted = heading.toLowerCase();
+		const match = headings.find((h) => h.heading.toLowerCase() === wanted);
+		if (match) return match.position.start.offset;
+		new Notice(`Heading "${heading}" from tts-start-heading was not found. Reading from the top.`);
+		return 0;
+	}
+
+	/** Embedded notes to read inline, when that is enabled */
+	private async resolveNoteEmbeds(file: TFile | null, text: string): Promise<EmbeddedNotes> {
+		if (!this.settings.readEmbeds || !file) return {};
+		return resolveEmbeds(this.app, text, file.path);
+	}
+
+	/** Whether a click should move playback, per the click-to-seek setting */
+	private isSeekClick(event: MouseEvent): boolean {
+		if (this.controller.getState() === "idle") return false;
+		// Don't hijack clicks that finish a text selection
+		if (!window.getSelection()?.isCollapsed) return false;
+		switch (this.settings.clickToSeek) {
+			case "click": return !event.altKey;
+			case "alt-click": return event.altKey;
+			default: return false;
+		}
+	}
+
+	/**
+	 * Save a new rate or volume and apply it to the current playback, which
+	 * restarts from the word being spoken so the change is heard at once.
+	 * Playback whose note overrides the value keeps the note's value.
+	 */
+	async setVoiceValue(key: "rate" | "volume", value: number): Promise<void> {
+		this.settings[key] = value;
+		await this.saveSettings();
+		if (this.sessionOverrides[key] === undefined) {
+			this.changeSessionVoice(key === "rate" ? { rate: value } : { volume: value });
+		}
+	}
+
+	/** Save a new default voice and switch the current playback to it, unless its note sets a voice */
+	async setVoice(voice: string): Promise<void> {
+		this.settings.voice = voice;
+		await this.saveSettings();
+		if (this.sessionOverrides.voice === undefined) this.changeSessionVoice({ voice });
+	}
+
+	/**
+	 * Change the voice, rate or volume of the current playback only, from
+	 * the word being spoken. The saved settings are left alone.
+	 */
+	changeSessionVoice(changes: VoiceChanges): void {
+		if (this.controller.getState() === "idle") return;
+		this.controller.updateVoice(changes);
+		if (changes.rate !== undefined) this.statusBar?.setRate(changes.rate);
+	}
+
+	/** Start reading the note in the most recently used editor, e.g. from the player panel */
+	readRecentNote(): void {
+		const leaf = this.app.workspace.getMostRecentLeaf();
+		if (leaf?.view instanceof MarkdownView) {
+			void this.readAloud(leaf.view, "full");
+		} else {
+			new Notice("Open a note to read aloud.");
+		}
+	}
+
+	/** The note being read, if any */
+	getReadingFile(): TFile | null {
+		return this.controller.getState() === "idle" ? null : this.readingSession?.file ?? null;
+	}
+
+	/** Open the player panel in the right sidebar, or reveal it */
+	private async openPlayer(): Promise<void> {
+		const { workspace } = this.app;
+		let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(PLAYER_VIEW_TYPE)[0] ?? null;
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			if (!leaf) return;
+			await leaf.setViewState({ type: PLAYER_VIEW_TYPE, active: false });
+		}
+		await workspace.revealLeaf(leaf);
+	}
+
+	/** Update open player panels after playback moved or changed state */
+	private refreshPlayers(): void {
+		for (const leaf of this.app.workspace.getLeavesOfType(PLAYER_VIEW_TYPE)) {
+			if (leaf.view instanceof PlayerView) leaf.view.refresh();
+		}
+	}
+
+	/**
+	 * Step the rate or volume of the current playback up (1) or down (-1).
+	 * The step lasts for this playback only, so note overrides and the saved
+	 * default stay as they are.
+	 */
+	private stepVoice(key: "rate" | "volume", direction: 1 | -1): void {
+		const current = this.controller.getSettings()?.[key];
+		if (current === undefined) return;
+		const { step, min, max } = VOICE_STEPS[key];
+		const value = Math.round(Math.min(max, Math.max(min, current + direction * step)) * 10) / 10;
+		this.changeSessionVoice(key === "rate" ? { rate: value } : { volume: value });
+		// The status bar shows the rate; volume changes get a notice
+		if (key === "volume") new Notice(`Volume ${Math.round(value * 100)}%`);
+	}
+
+	/** Register a command that is only available while playback is active */
+	private addSkipCommand(id: string, name: string, skip: () => void): void {
+		this.addCommand({
+			id,
+			name,
+			checkCallback: (checking: boolean) => {
+				if (this.controller.getState() === "idle") return false;
+				if (!checking) skip();
+				return true;
+			},
+		});
+	}
+
+	/**
+	 * Read the note in `view`. In "cursor" mode, `range.from` overrides the
+	 * cursor position as the editor offset to start from; "range" mode reads
+	 * the editor offsets `range.from` to `range.to`. `overrides` replace
+	 * settings for this reading only.
+	 */
+	private async readAloud(
+		view: MarkdownView,
+		mode: "full" | "selection" | "cursor" | "range",
+		range: { from?: number; to?: number } = {},
+		overrides: Partial<TTSSettings> = {}
+	): Promise<void> {
 		const state = view.getState();
 		const isReadingMode = state.mode === "preview";
 
 		let rawText: string;
 		let editorOffset = 0;
 		let editorView: EditorView | null = null;
-		let readingContainer: HTMLElement | null = null;
+		let reading: ReadingTarget | null = null;
+		const noteSettings = this.getNoteSettings(view.file);
+		const settings = { ...noteSettings.settings, ...overrides };
+		const startHeading = noteSettings.startHeading;
 
 		if (mode === "selection") {
 			const editor = view.editor;
@@ -164,12 +945,15 @@ export default class TTSHighlightPlugin extends Plugin {
 			editorOffset = editor.posToOffset(from);
 		} else if (mode === "cursor") {
 			const editor = view.editor;
-			const cursor = editor.getCursor();
-			editorOffset = editor.posToOffset(cursor);
+			editorOffset = range.from ?? editor.posToOffset(editor.getCursor());
 			const fullText = editor.getValue();
 			rawText = fullText.substring(editorOffset);
+		} else if (mode === "range") {
+			editorOffset = range.from ?? 0;
+			rawText = view.editor.getValue().substring(editorOffset, range.to);
 		} else {
-			rawText = view.editor.getValue();
+			editorOffset = startHeading ? this.findStartHeading(view.file, startHeading) : 0;
+			rawText = view.editor.getValue().substring(editorOffset);
 		}
 
 		if (!rawText.trim()) {
@@ -179,20 +963,27 @@ export default class TTSHighlightPlugin extends Plugin {
 
 		if (isReadingMode) {
 			// Reading mode: use the preview container
-			readingContainer = view.contentEl.querySelector<HTMLElement>(
+			const readingContainer = view.contentEl.querySelector<HTMLElement>(
 				".markdown-preview-view .markdown-preview-sizer"
-			);
-			if (!readingContainer) {
-				readingContainer = view.contentEl.querySelector<HTMLElement>(
-					".markdown-preview-view"
-				);
-			}
+			) ?? view.contentEl.querySelector<HTMLElement>(".markdown-preview-view");
+			if (readingContainer) reading = createReadingTarget(view, readingContainer);
 		} else {
 			// Source/live-preview mode: get the CM6 EditorView
 			editorView = this.getEditorView(view);
 		}
 
-		this.controller.play(rawText, this.settings, editorView, readingContainer, editorOffset);
+		const embeds = await this.resolveNoteEmbeds(view.file, rawText);
+		this.controller.play(rawText, settings, editorView, reading, editorOffset, embeds);
+		this.sessionOverrides = { ...noteSettings.overrides, ...overrides };
+		this.backgroundPlayback = false;
+
+		// Set after play(), which ends (and saves) the previous session
+		const file = view.file;
+		this.recordedFile = file;
+		// Reading part of a note neither saves nor clears its position
+		this.readingSession = file && mode !== "selection" && mode !== "range"
+			? { file, content: view.editor.getValue(), mtime: file.stat.mtime }
+			: null;
 	}
 
 	private getEditorView(view: MarkdownView): EditorView | null {
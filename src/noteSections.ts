@@ -0,0 +1,31 @@
+import type { HeadingCache } from "obsidian";
+
+/** A heading's section: from the heading to the next heading of equal or higher level */
+export interface NoteSection {
+	from: number;
+	to: number;
+	/** The heading, or null for the text before the first heading */
+	heading: string | null;
+}
+
+/** The section of the heading at `index`, ending at the next heading of equal or higher level or `length` */
+export function headingSection(headings: HeadingCache[], index: number, length: number): NoteSection {
+	const heading = headings[index];
+	const next = headings.slice(index + 1).find((h) => h.level <= heading.level);
+	return {
+		from: heading.position.start.offset,
+		to: Math.min(next ? next.position.start.offset : length, length),
+		heading: heading.heading,
+	};
+}
+
+/**
+ * The section enclosing `offset`: that of the last heading starting at or
+ * before it, or the text before the first heading.
+ */
+export function enclosingSection(headings: HeadingCache[], offset: number, length: number): NoteSection {
+	let index = -1;
+	for (let i = 0; i < headings.length && headings[i].position.start.offset <= offset; i++) index = i;
+	if (index >= 0) return headingSection(headings, index, length);
+	return { from: 0, to: headings.length > 0 ? headings[0].position.start.offset : length, heading: null };
+}
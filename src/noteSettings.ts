@@ -0,0 +1,93 @@
+import { primaryLanguage } from "./tts/LanguageDetector";
+import type { TTSSettings } from "./types";
+
+/** Allowed ranges for numeric overrides, matching the settings sliders */
+const NUMBER_LIMITS: Record<string, { key: "rate" | "pitch" | "volume"; min: number; max: number }> = {
+	"tts-rate": { key: "rate", min: 0.5, max: 2.0 },
+	"tts-pitch": { key: "pitch", min: 0.5, max: 2.0 },
+	"tts-volume": { key: "volume", min: 0.0, max: 1.0 },
+};
+
+/** Settings a note overrides through its frontmatter */
+export interface NoteOverrides {
+	settings: Partial<TTSSettings>;
+	/** Heading that reading the whole note starts at */
+	startHeading: string | null;
+	/** Frontmatter values that could not be used, one message per key */
+	errors: string[];
+}
+
+/**
+ * Read the `tts-*` frontmatter keys of a note: `tts-voice` (voice name or
+ * URI), `tts-rate`, `tts-pitch`, `tts-volume`, `tts-skip-headings` and
+ * `tts-start-heading`. Invalid values are reported in `errors` and ignored.
+ */
+export function readNoteOverrides(
+	frontmatter: Record<string, unknown> | undefined,
+	voices: SpeechSynthesisVoice[]
+): NoteOverrides {
+	const result: NoteOverrides = { settings: {}, startHeading: null, errors: [] };
+	if (!frontmatter) return result;
+
+	const voice = frontmatter["tts-voice"];
+	if (voice !== undefined && voice !== null) {
+		const resolved = typeof voice === "string" ? resolveVoice(voice, voices) : null;
+		if (resolved !== null) result.settings.voice = resolved;
+		else result.errors.push(`tts-voice "${String(voice)}" is not an installed voice`);
+	}
+
+	for (const name of Object.keys(NUMBER_LIMITS)) {
+		const value = frontmatter[name];
+		if (value === undefined || value === null) continue;
+		const { key, min, max } = NUMBER_LIMITS[name];
+		const number = typeof value === "number" ? value : typeof value === "string" ? parseFloat(value) : NaN;
+		if (isFinite(number) && number >= min && number <= max) result.settings[key] = number;
+		else result.errors.push(`${name} must be a number from ${min} to ${max}`);
+	}
+
+	const skipHeadings = frontmatter["tts-skip-headings"];
+	if (skipHeadings !== undefined && skipHeadings !== null) {
+		if (typeof skipHeadings === "boolean") result.settings.readHeadings = !skipHeadings;
+		else result.errors.push("tts-skip-headings must be true or false");
+	}
+
+	const startHeading = frontmatter["tts-start-heading"];
+	if (startHeading !== undefined && startHeading !== null) {
+		if (typeof startHeading === "string" && startHeading.trim()) result.startHeading = startHeading.trim();
+		else result.errors.push("tts-start-heading must be the text of a heading");
+	}
+
+	return result;
+}
+
+/**
+ * Settings with a note's overrides applied. A voice the note sets is also
+ * kept for text in its own language when voices switch by language, instead
+ * of giving way to the voice set for that language.
+ */
+export function applyNoteOverrides(
+	settings: TTSSettings,
+	overrides: Partial<TTSSettings>,
+	voices: SpeechSynthesisVoice[]
+): TTSSettings {
+	const merged = { ...settings, ...overrides };
+	const voice = overrides.voice ? voices.find((v) => v.voiceURI === overrides.voice) : undefined;
+	if (voice) {
+		const language = primaryLanguage(voice.lang);
+		merged.languageVoices = settings.languageVoices.filter((e) => primaryLanguage(e.language) !== language);
+	}
+	return merged;
+}
+
+/**
+ * The voiceURI for a voice given by URI or name (case-insensitive). While
+ * no voices are loaded the value is kept as written.
+ */
+function resolveVoice(value: string, voices: SpeechSynthesisVoice[]): string | null {
+	const wanted = value.trim();
+	if (voices.length === 0) return wanted;
+	const lower = wanted.toLowerCase();
+	const match = voices.find((v) => v.voiceURI === wanted)
+		?? voices.find((v) => v.name.toLowerCase() === lower);
+	return match ? match.voiceURI : null;
+}
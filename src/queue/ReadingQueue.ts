@@ -0,0 +1,98 @@
+import type { TFile } from "obsidian";
+
+export type QueueChangeCallback = () => void;
+
+/**
+ * Ordered list of notes waiting to be read. The note currently being read
+ * is taken off the front of the list and tracked separately until it
+ * finishes or playback is interrupted.
+ */
+export class ReadingQueue {
+	private items: TFile[] = [];
+	private nowReading: TFile | null = null;
+	private onChange: QueueChangeCallback | null = null;
+
+	setChangeCallback(cb: QueueChangeCallback | null): void {
+		this.onChange = cb;
+	}
+
+	/** Notes waiting to be read, in order */
+	getItems(): readonly TFile[] {
+		return this.items;
+	}
+
+	/** The queued note currently being read, if queue playback is active */
+	getNowReading(): TFile | null {
+		return this.nowReading;
+	}
+
+	/** Append notes that are not already queued. Returns how many were added. */
+	add(files: TFile[]): number {
+		let added = 0;
+		for (const file of files) {
+			if (file === this.nowReading || this.items.includes(file)) continue;
+			this.items.push(file);
+			added++;
+		}
+		if (added > 0) this.emitChange();
+		return added;
+	}
+
+	/** Put notes at the front in the given order, moving any that are already queued */
+	prepend(files: TFile[]): void {
+		const unique = files.filter((file, i) => files.indexOf(file) === i && file !== this.nowReading);
+		this.items = [...unique, ...this.items.filter((file) => !unique.includes(file))];
+		this.emitChange();
+	}
+
+	remove(index: number): void {
+		if (index < 0 || index >= this.items.length) return;
+		this.items.splice(index, 1);
+		this.emitChange();
+	}
+
+	/** Move the note at `from` so it ends up at index `to` */
+	move(from: number, to: number): void {
+		if (from < 0 || from >= this.items.length || to < 0 || to >= this.items.length || from === to) return;
+		const [file] = this.items.splice(from, 1);
+		this.items.splice(to, 0, file);
+		this.emitChange();
+	}
+
+	clear(): void {
+		this.items = [];
+		this.emitChange();
+	}
+
+	/** Take the next note off the queue and mark it as being read */
+	next(): TFile | null {
+		this.nowReading = this.items.shift() ?? null;
+		this.emitChange();
+		return this.nowReading;
+	}
+
+	/** The note being read finished (or was skipped); forget it */
+	finish(): void {
+		if (!this.nowReading) return;
+		this.nowReading = null;
+		this.emitChange();
+	}
+
+	/** Playback was stopped early; put the note back at the front */
+	interrupt(): void {
+		if (!this.nowReading) return;
+		this.items.unshift(this.nowReading);
+		this.nowReading = null;
+		this.emitChange();
+	}
+
+	/** Drop a deleted note from the queue */
+	removeFile(file: TFile): void {
+		const index = this.items.indexOf(file);
+		if (index !== -1) this.remove(index);
+	}
+
+	private emitChange(): void {
+		this.onChange?.();
+	}
+}
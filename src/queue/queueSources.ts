@@ -0,0 +1,66 @@
+import { type App, TFile, TFolder, Vault, getLinkpath } from "obsidian";
+
+/** Internal shape of the core search view (not part of the public API) */
+interface SearchViewInternal {
+	dom?: {
+		resultDomLookup?: Map<TFile, unknown>;
+	};
+}
+
+function isNote(file: unknown): file is TFile {
+	return file instanceof TFile && file.extension === "md";
+}
+
+/** All notes inside a folder and its subfolders, sorted by path */
+export function getFolderNotes(folder: TFolder): TFile[] {
+	const notes: TFile[] = [];
+	Vault.recurseChildren(folder, (file) => {
+		if (isNote(file)) notes.push(file);
+	});
+	return notes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** Notes listed in the core search view, in display order */
+export function getSearchResultNotes(app: App): TFile[] {
+	const leaf = app.workspace.getLeavesOfType("search")[0];
+	if (!leaf) return [];
+	const lookup = (leaf.view as unknown as SearchViewInternal).dom?.resultDomLookup;
+	if (!lookup) return [];
+	return Array.from(lookup.keys()).filter(isNote);
+}
+
+/** Notes that `file` links to, in link order */
+export function getOutgoingLinkNotes(app: App, file: TFile): TFile[] {
+	const links = app.metadataCache.getFileCache(file)?.links ?? [];
+	const notes: TFile[] = [];
+	for (const link of links) {
+		const target = app.metadataCache.getFirstLinkpathDest(getLinkpath(link.link), file.path);
+		if (isNote(target) && target !== file && !notes.includes(target)) notes.push(target);
+	}
+	return notes;
+}
+
+/** Notes that link to `file`, sorted by path */
+export function getBacklinkNotes(app: App, file: TFile): TFile[] {
+	const notes: TFile[] = [];
+	const resolved = app.metadataCache.resolvedLinks;
+	for (const sourcePath of Object.keys(resolved)) {
+		if (sourcePath === file.path || !resolved[sourcePath][file.path]) continue;
+		const source = app.vault.getAbstractFileByPath(sourcePath);
+		if (isNote(source)) notes.push(source);
+	}
+	return notes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** Expand explorer selections (notes and folders) into notes */
+export function getSelectedNotes(files: unknown[]): TFile[] {
+	const notes: TFile[] = [];
+	for (const file of files) {
+		if (file instanceof TFolder) {
+			notes.push(...getFolderNotes(file));
+		} else if (isNote(file)) {
+			notes.push(file);
+		}
+	}
+	return notes;
+}
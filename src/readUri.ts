@@ -0,0 +1,47 @@
+import type { ObsidianProtocolData } from "obsidian";
+
+/** Rate range accepted from a URI, matching the settings slider */
+const MIN_RATE = 0.5;
+const MAX_RATE = 2.0;
+
+/** What to read, from `obsidian://tts-highlight?file=...&heading=...&block=...&rate=...` */
+export interface ReadUriRequest {
+	/** Note path or name, resolved like a link */
+	file: string | null;
+	heading: string | null;
+	/** Block id, with or without the leading "^" */
+	block: string | null;
+	rate: number | null;
+	/** Parameters that could not be used, one message per parameter */
+	errors: string[];
+}
+
+/** Read the parameters of a `tts-highlight` URI. Invalid values are reported in `errors` and ignored. */
+export function parseReadUri(params: ObsidianProtocolData): ReadUriRequest {
+	const result: ReadUriRequest = {
+		file: text(params.file),
+		heading: text(params.heading),
+		block: text(params.block)?.replace(/^\^/, "") || null,
+		rate: null,
+		errors: [],
+	};
+	if (result.file === null) result.errors.push("file is missing");
+	if (result.heading !== null && result.block !== null) {
+		result.errors.push("use either heading or block, not both; the heading is used");
+		result.block = null;
+	}
+
+	const rate = text(params.rate);
+	if (rate !== null) {
+		const number = parseFloat(rate);
+		if (isFinite(number) && number >= MIN_RATE && number <= MAX_RATE) result.rate = number;
+		else result.errors.push(`rate must be a number from ${MIN_RATE} to ${MAX_RATE}`);
+	}
+	return result;
+}
+
+/** A trimmed, non-empty parameter value, or null */
+function text(value: string | undefined): string | null {
+	const trimmed = value?.trim();
+	return trimmed ? trimmed : null;
+}
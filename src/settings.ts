@@ -1,6 +1,29 @@
 import { App, PluginSettingTab, Setting, Platform } from "obsidian";
 import type TTSHighlightPlugin from "./main";
-import type { TTSSettings } from "./types";
+import { SpeechEngine } from "./tts/SpeechEngine";
+import type {
+	TTSSettings,
+	SpeechBackendType,
+	ClickToSeekMode,
+	PronunciationEntry,
+	SubtitleFormat,
+	SpokenStyle,
+} from "./types";
+
+/** Settings that toggle whether a kind of content is read */
+type ContentFilterKey = keyof Pick<
+	TTSSettings,
+	| "readHeadings"
+	| "readCodeBlocks"
+	| "readInlineCode"
+	| "readTables"
+	| "readImageAlt"
+	| "readComments"
+	| "readHtmlComments"
+	| "readFootnotes"
+	| "readMath"
+	| "readEmbeds"
+>;
 
 export class TTSSettingTab extends PluginSettingTab {
 	plugin: TTSHighlightPlugin;
@@ -14,6 +37,7 @@ export class TTSSettingTab extends PluginSettingTab {
 		const { containerEl } = this;
 		containerEl.empty();
 
+		this.addBackendSetting(containerEl);
 		this.addVoiceSetting(containerEl);
 		this.addSliderSetting(containerEl, "Rate", "rate", 0.5, 2.0, 0.1);
 		this.addSliderSetting(containerEl, "Pitch", "pitch", 0.5, 2.0, 0.1);
@@ -28,7 +52,60 @@ export class TTSSettingTab extends PluginSettingTab {
 					.setValue(this.plugin.settings.highlightColor)
 					.onChange(async (value) => {
 						this.plugin.settings.highlightColor = value;
-						this.applyHighlightColor(value);
+						this.applyColor("--tts-highlight-color", value);
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Highlight sentence")
+			.setDesc("Also highlight the sentence currently being spoken.")
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.sentenceHighlight).onChange(async (value) => {
+					this.plugin.settings.sentenceHighlight = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Sentence highlight color")
+			.setDesc("CSS color for the highlighted sentence. Leave empty to use a faint accent color.")
+			.addText((text) =>
+				text
+					.setPlaceholder("#fff3b0")
+					.setValue(this.plugin.settings.sentenceHighlightColor)
+					.onChange(async (value) => {
+						this.plugin.settings.sentenceHighlightColor = value;
+						this.applyColor("--tts-sentence-color", value);
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Spoken text")
+			.setDesc("Set the text already read apart from the text still to come, growing word by word.")
+			.addDropdown((dropdown) => {
+				dropdown.addOption("off", "Off");
+				dropdown.addOption("dim", "Dim");
+				dropdown.addOption("tint", "Tint");
+				dropdown.setValue(this.plugin.settings.spokenStyle);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.spokenStyle = value as SpokenStyle;
+					this.plugin.applySpokenStyle();
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Spoken text color")
+			.setDesc("CSS background color for the tint style. Leave empty to use a very faint accent color.")
+			.addText((text) =>
+				text
+					.setPlaceholder("#e8f0fe")
+					.setValue(this.plugin.settings.spokenColor)
+					.onChange(async (value) => {
+						this.plugin.settings.spokenColor = value;
+						this.applyColor("--tts-spoken-color", value);
 						await this.plugin.saveSettings();
 					})
 			);
@@ -59,9 +136,274 @@ export class TTSSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Announce callout types")
+			.setDesc("Speak the callout type, such as warning, before its title. When off, the type marker is dropped.")
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.announceCallouts).onChange(async (value) => {
+					this.plugin.settings.announceCallouts = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Read collapsed callouts")
+			.setDesc("Read callouts that are collapsed by default. When off, they are skipped.")
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.readCollapsedCallouts).onChange(async (value) => {
+					this.plugin.settings.readCollapsedCallouts = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Click to move playback")
+			.setDesc("While a note is being read, clicking a word restarts playback from that word.")
+			.addDropdown((dropdown) => {
+				dropdown.addOption("off", "Off");
+				dropdown.addOption("click", "Click");
+				dropdown.addOption("alt-click", "Alt-click");
+				dropdown.setValue(this.plugin.settings.clickToSeek);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.clickToSeek = value as ClickToSeekMode;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Remember reading position")
+			.setDesc("Save where you stopped in each note. The ribbon icon and the resume command continue from there.")
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.rememberPosition).onChange(async (value) => {
+					this.plugin.settings.rememberPosition = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Open queued notes")
+			.setDesc("Open each note from the reading queue while it is read. When off, queued notes are read in the background without highlighting.")
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.queueOpenNotes).onChange(async (value) => {
+					this.plugin.settings.queueOpenNotes = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Timing track format")
+			.setDesc("File format used by the export timing track command.")
+			.addDropdown((dropdown) => {
+				dropdown.addOption("vtt", "WebVTT (.vtt)");
+				dropdown.addOption("srt", "SubRip (.srt)");
+				dropdown.setValue(this.plugin.settings.subtitleFormat);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.subtitleFormat = value as SubtitleFormat;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		this.addContentSection(containerEl);
+		this.addLanguageSection(containerEl);
+		this.addPronunciationSection(containerEl);
 		this.addHotkeySection(containerEl);
 	}
 
+	private addContentSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("Content to read")
+			.setDesc("Choose which kinds of note content are spoken. Skipped content is left out entirely.")
+			.setHeading();
+
+		this.addFilterToggle(containerEl, "Headings", "readHeadings", "Read heading lines.");
+		this.addFilterToggle(containerEl, "Code blocks", "readCodeBlocks", "Read the contents of fenced code blocks.");
+		this.addFilterToggle(containerEl, "Inline code", "readInlineCode", "Read text between backticks.");
+		this.addFilterToggle(containerEl, "Tables", "readTables", "Read table cells.");
+		this.addFilterToggle(containerEl, "Image alt text", "readImageAlt", "Read the alt text of embedded images.");
+		this.addFilterToggle(containerEl, "Comments", "readComments", "Read Obsidian %% comments %%.");
+		this.addFilterToggle(containerEl, "HTML comments", "readHtmlComments", "Read HTML comments.");
+		this.addFilterToggle(containerEl, "Footnotes", "readFootnotes", "Read footnote definitions and inline footnotes. Footnote markers are never read.");
+		this.addFilterToggle(containerEl, "Math", "readMath", "Speak inline and block math as words.");
+		this.addFilterToggle(
+			containerEl,
+			"Embedded notes",
+			"readEmbeds",
+			"Read embedded notes and sections in place of their embed link, up to three levels deep."
+		);
+	}
+
+	private addFilterToggle(
+		containerEl: HTMLElement,
+		name: string,
+		key: ContentFilterKey,
+		desc: string
+	): void {
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings[key]).onChange(async (value) => {
+					this.plugin.settings[key] = value;
+					await this.plugin.saveSettings();
+				})
+			);
+	}
+
+	private addLanguageSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("Languages")
+			.setDesc("Speak each sentence with a voice for its language. Notes can set their language with a lang property.")
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName("Switch voice by language")
+			.setDesc("Detect the language of each sentence from lang attributes, its script and common words, and switch voices when it changes.")
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.detectLanguage).onChange(async (value) => {
+					this.plugin.settings.detectLanguage = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Default language")
+			.setDesc("Language of sentences that cannot be detected, such as en or nl. Leave empty to use the main voice.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Language")
+					.setValue(this.plugin.settings.defaultLanguage)
+					.onChange(async (value) => {
+						this.plugin.settings.defaultLanguage = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		const listEl = containerEl.createDiv({ cls: "tts-language-list" });
+		this.renderLanguageVoices(listEl);
+
+		new Setting(containerEl).addButton((btn) =>
+			btn.setButtonText("Add language").onClick(async () => {
+				this.plugin.settings.languageVoices.push({ language: "", voice: "" });
+				await this.plugin.saveSettings();
+				this.renderLanguageVoices(listEl);
+			})
+		);
+	}
+
+	private renderLanguageVoices(listEl: HTMLElement): void {
+		listEl.empty();
+		const entries = this.plugin.settings.languageVoices;
+		const voices = SpeechEngine.getVoices();
+
+		entries.forEach((entry, index) => {
+			new Setting(listEl)
+				.setDesc("Voice for this language. Without one, a system voice for the language is picked.")
+				.addText((text) =>
+					text.setPlaceholder("Language").setValue(entry.language).onChange(async (value) => {
+						entry.language = value.trim();
+						await this.plugin.saveSettings();
+					})
+				)
+				.addDropdown((dropdown) => {
+					dropdown.addOption("", "Any matching voice");
+					for (const voice of voices) {
+						dropdown.addOption(voice.voiceURI, `${voice.name} (${voice.lang})`);
+					}
+					dropdown.setValue(entry.voice);
+					dropdown.onChange(async (value) => {
+						entry.voice = value;
+						await this.plugin.saveSettings();
+					});
+				})
+				.addExtraButton((btn) =>
+					btn.setIcon("trash").setTooltip("Remove").onClick(async () => {
+						entries.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.renderLanguageVoices(listEl);
+					})
+				);
+		});
+	}
+
+	private addPronunciationSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("Pronunciation dictionary")
+			.setDesc(
+				"Words that should be spoken differently than they are written. Matches are case-sensitive and start at the beginning of a word. " +
+				"Give an entry a scope to use it only in notes that list that scope under tts-dictionary in their frontmatter."
+			)
+			.setHeading();
+
+		const listEl = containerEl.createDiv({ cls: "tts-pronunciation-list" });
+		this.renderPronunciations(listEl);
+
+		new Setting(containerEl).addButton((btn) =>
+			btn.setButtonText("Add entry").onClick(async () => {
+				this.plugin.settings.pronunciations.push({ pattern: "", replacement: "", regex: false, scope: "" });
+				await this.plugin.saveSettings();
+				this.renderPronunciations(listEl);
+			})
+		);
+	}
+
+	private renderPronunciations(listEl: HTMLElement): void {
+		listEl.empty();
+		const entries = this.plugin.settings.pronunciations;
+
+		entries.forEach((entry, index) => {
+			const setting = new Setting(listEl);
+			this.describePronunciation(setting, entry);
+			setting
+				.addText((text) =>
+					text.setPlaceholder("Written").setValue(entry.pattern).onChange(async (value) => {
+						entry.pattern = value;
+						this.describePronunciation(setting, entry);
+						await this.plugin.saveSettings();
+					})
+				)
+				.addText((text) =>
+					text.setPlaceholder("Spoken").setValue(entry.replacement).onChange(async (value) => {
+						entry.replacement = value;
+						await this.plugin.saveSettings();
+					})
+				)
+				.addText((text) =>
+					text.setPlaceholder("Scope").setValue(entry.scope).onChange(async (value) => {
+						entry.scope = value.trim();
+						await this.plugin.saveSettings();
+					})
+				)
+				.addToggle((toggle) =>
+					toggle.setTooltip("Regular expression").setValue(entry.regex).onChange(async (value) => {
+						entry.regex = value;
+						this.describePronunciation(setting, entry);
+						await this.plugin.saveSettings();
+					})
+				)
+				.addExtraButton((btn) =>
+					btn.setIcon("trash").setTooltip("Remove").onClick(async () => {
+						entries.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.renderPronunciations(listEl);
+					})
+				);
+		});
+	}
+
+	/** Show whether an entry is literal or a regex, and flag invalid regexes */
+	private describePronunciation(setting: Setting, entry: PronunciationEntry): void {
+		if (!entry.regex) {
+			setting.setDesc("Literal text");
+			return;
+		}
+		try {
+			new RegExp(entry.pattern);
+			setting.setDesc("Regular expression");
+		} catch {
+			setting.setDesc("Invalid regular expression");
+		}
+	}
+
 	private addHotkeySection(containerEl: HTMLElement): void {
 		new Setting(containerEl).setName("Hotkeys").setHeading();
 
@@ -69,8 +411,16 @@ export class TTSSettingTab extends PluginSettingTab {
 			{ id: "tts-highlight:read-aloud", name: "Read aloud" },
 			{ id: "tts-highlight:read-from-cursor", name: "Read from cursor" },
 			{ id: "tts-highlight:read-selection-aloud", name: "Read selection aloud" },
+			{ id: "tts-highlight:resume-reading", name: "Resume reading" },
 			{ id: "tts-highlight:pause-resume", name: "Pause / resume" },
 			{ id: "tts-highlight:stop", name: "Stop" },
+			{ id: "tts-highlight:next-sentence", name: "Next sentence" },
+			{ id: "tts-highlight:previous-sentence", name: "Previous sentence" },
+			{ id: "tts-highlight:next-paragraph", name: "Next paragraph" },
+			{ id: "tts-highlight:previous-paragraph", name: "Previous paragraph" },
+			{ id: "tts-highlight:show-reading-queue", name: "Show reading queue" },
+			{ id: "tts-highlight:play-reading-queue", name: "Play reading queue" },
+			{ id: "tts-highlight:skip-queue-item", name: "Skip to next note in queue" },
 		];
 
 		for (const cmd of commands) {
@@ -121,8 +471,39 @@ export class TTSSettingTab extends PluginSettingTab {
 		}
 	}
 
+	private addBackendSetting(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("Speech backend")
+			.setDesc(
+				SpeechEngine.isSupported()
+					? "Use the system voices, or a local synthesis server that returns audio with word timestamps."
+					: "System voices are not available on this device, so the local synthesis server is always used."
+			)
+			.addDropdown((dropdown) => {
+				dropdown.addOption("webspeech", "System voices");
+				dropdown.addOption("server", "Local synthesis server");
+				dropdown.setValue(this.plugin.settings.backend);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.backend = value as SpeechBackendType;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Server endpoint")
+			.setDesc("Address of the local synthesis server. Only used by the server backend.")
+			.addText((text) =>
+				text
+					.setValue(this.plugin.settings.serverEndpoint)
+					.onChange(async (value) => {
+						this.plugin.settings.serverEndpoint = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+	}
+
 	private addVoiceSetting(containerEl: HTMLElement): void {
-		const voices = window.speechSynthesis.getVoices();
+		const voices = SpeechEngine.getVoices();
 		new Setting(containerEl)
 			.setName("Voice")
 			.setDesc("Select a text-to-speech voice.")
@@ -133,8 +514,8 @@ export class TTSSettingTab extends PluginSettingTab {
 				}
 				dropdown.setValue(this.plugin.settings.voice);
 				dropdown.onChange(async (value) => {
-					this.plugin.settings.voice = value;
-					await this.plugin.saveSettings();
+					// Also switches the current playback to the new voice
+					await this.plugin.setVoice(value);
 				});
 			});
 	}
@@ -155,15 +536,20 @@ export class TTSSettingTab extends PluginSettingTab {
 					.setValue(this.plugin.settings[key])
 					.setDynamicTooltip()
 					.onChange(async (value) => {
-						(this.plugin.settings as unknown as Record<string, unknown>)[key] = value;
-						await this.plugin.saveSettings();
+						if (key === "pitch") {
+							this.plugin.settings.pitch = value;
+							await this.plugin.saveSettings();
+						} else {
+							// Rate and volume also apply to the current playback
+							await this.plugin.setVoiceValue(key, value);
+						}
 					})
 			);
 	}
 
-	private applyHighlightColor(color: string): void {
+	private applyColor(property: string, color: string): void {
 		document.body.style.setProperty(
-			"--tts-highlight-color",
+			property,
 			color || null
 		);
 	}
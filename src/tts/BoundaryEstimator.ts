@@ -0,0 +1,100 @@
+/** Speaking speed at rate 1 assumed before any chunk has been measured */
+const DEFAULT_SYLLABLES_PER_SECOND = 4;
+/** How much of the previous speed estimate survives each measurement */
+const SPEED_SMOOTHING = 0.5;
+/** Measured chunks shorter than this are too noisy to learn from */
+const MIN_CALIBRATION_SECONDS = 1;
+/** Measured speeds outside this range are treated as glitches */
+const MIN_SYLLABLES_PER_SECOND = 0.5;
+const MAX_SYLLABLES_PER_SECOND = 20;
+/** Extra weight, in syllables, for the pause after a comma-like mark */
+const CLAUSE_PAUSE_WEIGHT = 1;
+/** Extra weight, in syllables, for the pause after a sentence end */
+const SENTENCE_PAUSE_WEIGHT = 2;
+/** Characters counted as one syllable in tokens without vowels (numbers, symbols) */
+const CHARS_PER_SYLLABLE = 2;
+
+const WORD_RE = /\S+/g;
+const VOWEL_GROUP_RE = /[aeiouyäëïöüáéíóúàèìòùâêîôû]+/gi;
+const SENTENCE_END_RE = /[.!?]["')\]]*$/;
+const CLAUSE_END_RE = /[,;:–—]["')\]]*$/;
+
+/** A word of the chunk with its estimated start, in syllables from the chunk start */
+export interface EstimatedWord {
+	charIndex: number;
+	charLength: number;
+	offset: number;
+}
+
+/**
+ * Estimates word start times for voices that never fire boundary events.
+ * Each word is weighted by its syllable count plus a pause after punctuation,
+ * and the weights are converted to seconds with a speaking speed that is
+ * re-measured from the duration of every chunk spoken to the end.
+ */
+export class BoundaryEstimator {
+	/** Learned speed at rate 1, so a rate change scales the estimate directly */
+	private syllablesPerSecond = DEFAULT_SYLLABLES_PER_SECOND;
+	private words: EstimatedWord[] = [];
+	private totalWeight = 0;
+	private rate = 1;
+	private next = 0;
+
+	/** Build the word schedule for a chunk that is about to be spoken */
+	begin(text: string, rate: number): void {
+		this.words = [];
+		this.totalWeight = 0;
+		this.rate = rate > 0 ? rate : 1;
+		this.next = 0;
+
+		WORD_RE.lastIndex = 0;
+		let match: RegExpExecArray | null;
+		while ((match = WORD_RE.exec(text))) {
+			this.words.push({ charIndex: match.index, charLength: match[0].length, offset: this.totalWeight });
+			this.totalWeight += this.weigh(match[0]);
+		}
+	}
+
+	/** Words whose estimated start lies at or before `seconds` into the chunk, not returned before */
+	due(seconds: number): EstimatedWord[] {
+		const reached = seconds * this.syllablesPerSecond * this.rate;
+		const start = this.next;
+		while (this.next < this.words.length && this.words[this.next].offset <= reached) {
+			this.next++;
+		}
+		return this.words.slice(start, this.next);
+	}
+
+	/**
+	 * Close the chunk, returning the words not reached yet. When the chunk
+	 * was spoken to its end, `seconds` is its measured duration and corrects
+	 * the speed used for the chunks that follow.
+	 */
+	finish(seconds: number | null): EstimatedWord[] {
+		if (seconds !== null) this.calibrate(seconds);
+		const rest = this.words.slice(this.next);
+		this.next = this.words.length;
+		return rest;
+	}
+
+	private calibrate(seconds: number): void {
+		if (seconds < MIN_CALIBRATION_SECONDS || this.totalWeight === 0) return;
+		const measured = this.totalWeight / (seconds * this.rate);
+		if (measured < MIN_SYLLABLES_PER_SECOND || measured > MAX_SYLLABLES_PER_SECOND) return;
+		this.syllablesPerSecond = SPEED_SMOOTHING * this.syllablesPerSecond + (1 - SPEED_SMOOTHING) * measured;
+	}
+
+	/** Speaking weight of one whitespace-separated token, in syllables */
+	private weigh(token: string): number {
+		const vowelGroups = token.match(VOWEL_GROUP_RE);
+		let weight = vowelGroups
+			? vowelGroups.length
+			: Math.max(1, Math.ceil(token.replace(/\W/g, "").length / CHARS_PER_SYLLABLE));
+		// A silent trailing "e" ("make", "note") is not a syllable of its own
+		if (vowelGroups && vowelGroups.length > 1 && /[^aeiouy]e$/i.test(token.replace(/\W+$/, ""))) weight--;
+
+		if (SENTENCE_END_RE.test(token)) weight += SENTENCE_PAUSE_WEIGHT;
+		else if (CLAUSE_END_RE.test(token)) weight += CLAUSE_PAUSE_WEIGHT;
+		return weight;
+	}
+}
@@ -0,0 +1,237 @@
+import { Notice, requestUrl, base64ToArrayBuffer } from "obsidian";
+import type { TTSSettings } from "../types";
+import type { SpeechBackend, BoundaryCallback, EndCallback, ErrorCallback } from "./SpeechBackend";
+
+/** Interval for polling the audio clock to fire word boundaries */
+const BOUNDARY_POLL_MS = 30;
+/** MIME type assumed when the server does not report one */
+const DEFAULT_AUDIO_MIME = "audio/wav";
+
+/** A word timestamp as returned by the synthesis server */
+interface ServerWord {
+	/** Word text, used to locate the word when charIndex is missing */
+	word?: string;
+	/** Chunk-local character index of the word */
+	charIndex?: number;
+	/** Length of the word in characters */
+	charLength?: number;
+	/** Start time in seconds from the beginning of the audio */
+	start: number;
+}
+
+/** JSON body returned by the synthesis server */
+interface ServerResponse {
+	/** Base64-encoded audio data */
+	audio: string;
+	/** MIME type of the audio data */
+	mimeType?: string;
+	/** Word timestamps, in any order */
+	words?: ServerWord[];
+}
+
+/** A word boundary resolved to chunk-local character coordinates */
+interface TimedBoundary {
+	time: number;
+	charIndex: number;
+	charLength: number;
+}
+
+/**
+ * Speech backend that posts chunk text to a local HTTP synthesis server
+ * (Piper, Coqui or a compatible wrapper), plays the returned audio and
+ * replays the returned word timestamps as boundary events.
+ *
+ * The server receives `{ text, rate, pitch, language? }` as JSON and must answer with
+ * `{ audio, mimeType?, words?: [{ word?, charIndex?, charLength?, start }] }`.
+ */
+export class HttpSpeechBackend implements SpeechBackend {
+	private audio: HTMLAudioElement | null = null;
+	private audioUrl: string | null = null;
+	private boundaries: TimedBoundary[] = [];
+	private nextBoundary = 0;
+	private pollTimer: number | null = null;
+	/** Incremented on every speak/cancel so stale responses are ignored */
+	private requestId = 0;
+	private paused = false;
+	private onBoundary: BoundaryCallback | null = null;
+	private onEnd: EndCallback | null = null;
+	private onError: ErrorCallback | null = null;
+
+	setBoundaryCallback(cb: BoundaryCallback): void {
+		this.onBoundary = cb;
+	}
+
+	setEndCallback(cb: EndCallback): void {
+		this.onEnd = cb;
+	}
+
+	setErrorCallback(cb: ErrorCallback): void {
+		this.onError = cb;
+	}
+
+	speak(text: string, settings: TTSSettings, language = ""): void {
+		this.cancel();
+		const id = this.requestId;
+
+		if (!settings.serverEndpoint) {
+			this.fail("no synthesis server endpoint configured", "Set the synthesis server URL in the settings.");
+			return;
+		}
+
+		requestUrl({
+			url: settings.serverEndpoint,
+			method: "POST",
+			contentType: "application/json",
+			body: JSON.stringify({
+				text,
+				rate: settings.rate,
+				pitch: settings.pitch,
+				language: language || undefined,
+			}),
+			throw: false,
+		})
+			.then((response) => {
+				if (id !== this.requestId) return;
+				if (response.status >= 400) {
+					this.fail(
+						`synthesis server returned HTTP ${response.status}`,
+						`The synthesis server returned an error (HTTP ${response.status}).`
+					);
+					return;
+				}
+				const body = response.json as ServerResponse;
+				if (!body || typeof body.audio !== "string") {
+					this.fail("synthesis server response has no audio", "The synthesis server returned no audio.");
+					return;
+				}
+				this.boundaries = this.resolveBoundaries(text, body.words ?? []);
+				this.startAudio(body, settings);
+			})
+			.catch((e: unknown) => {
+				if (id !== this.requestId) return;
+				this.fail(
+					`synthesis request failed: ${String(e)}`,
+					`Could not reach the synthesis server at ${settings.serverEndpoint}.`
+				);
+			});
+	}
+
+	/** Report an error that stops playback, telling the user why in a notice */
+	private fail(error: string, message: string): void {
+		new Notice(`TTS Highlight: ${message} Reading stopped.`);
+		this.onError?.(error);
+	}
+
+	pause(): void {
+		this.paused = true;
+		this.audio?.pause();
+		this.stopPolling();
+	}
+
+	resume(): void {
+		this.paused = false;
+		if (this.audio) this.playAudio(this.audio);
+	}
+
+	cancel(): void {
+		this.requestId++;
+		this.paused = false;
+		this.stopPolling();
+		if (this.audio) {
+			this.audio.onended = null;
+			this.audio.onerror = null;
+			this.audio.pause();
+			this.audio = null;
+		}
+		if (this.audioUrl) {
+			URL.revokeObjectURL(this.audioUrl);
+			this.audioUrl = null;
+		}
+		this.boundaries = [];
+		this.nextBoundary = 0;
+	}
+
+	private startAudio(body: ServerResponse, settings: TTSSettings): void {
+		const blob = new Blob([base64ToArrayBuffer(body.audio)], {
+			type: body.mimeType || DEFAULT_AUDIO_MIME,
+		});
+		this.audioUrl = URL.createObjectURL(blob);
+
+		const audio = new Audio(this.audioUrl);
+		audio.volume = settings.volume;
+		audio.onended = () => {
+			this.stopPolling();
+			this.fireDueBoundaries(Infinity);
+			this.onEnd?.();
+		};
+		audio.onerror = () => {
+			this.stopPolling();
+			this.onError?.("audio playback failed");
+		};
+		this.audio = audio;
+
+		// A pause that arrived while the request was in flight holds playback
+		if (!this.paused) this.playAudio(audio);
+	}
+
+	private playAudio(audio: HTMLAudioElement): void {
+		audio.play().catch((e: unknown) => {
+			if (audio !== this.audio) return;
+			this.onError?.(`audio playback failed: ${String(e)}`);
+		});
+		this.startPolling();
+	}
+
+	private startPolling(): void {
+		this.stopPolling();
+		this.pollTimer = window.setInterval(() => {
+			if (this.audio) this.fireDueBoundaries(this.audio.currentTime);
+		}, BOUNDARY_POLL_MS);
+	}
+
+	private stopPolling(): void {
+		if (this.pollTimer !== null) {
+			window.clearInterval(this.pollTimer);
+			this.pollTimer = null;
+		}
+	}
+
+	/** Emit every boundary whose start time has been reached */
+	private fireDueBoundaries(currentTime: number): void {
+		while (
+			this.nextBoundary < this.boundaries.length &&
+			this.boundaries[this.nextBoundary].time <= currentTime
+		) {
+			const b = this.boundaries[this.nextBoundary++];
+			this.onBoundary?.(b.charIndex, b.charLength);
+		}
+	}
+
+	/**
+	 * Turn server word timestamps into chunk-local character ranges.
+	 * Words without a charIndex are located by sequential search in the text.
+	 */
+	private resolveBoundaries(text: string, words: ServerWord[]): TimedBoundary[] {
+		const result: TimedBoundary[] = [];
+		let cursor = 0;
+
+		for (const w of [...words].sort((a, b) => a.start - b.start)) {
+			let charIndex = w.charIndex;
+			let charLength = w.charLength ?? w.word?.length ?? 0;
+
+			if (charIndex === undefined) {
+				if (!w.word) continue;
+				const idx = text.indexOf(w.word, cursor);
+				if (idx === -1) continue;
+				charIndex = idx;
+				charLength = w.word.length;
+			}
+			if (charLength <= 0) continue;
+
+			cursor = charIndex + charLength;
+			result.push({ time: w.start, charIndex, charLength });
+		}
+
+		return result;
+	}
+}
@@ -0,0 +1,142 @@
+import type { LanguageRange, PlainRange } from "../types";
+
+/** Stop words needed before a stretch of Latin-script text is assigned a language */
+const MIN_STOPWORD_HITS = 2;
+
+/** Frequent short words per language, used to tell Latin-script languages apart */
+const STOPWORDS: Record<string, string[]> = {
+	en: ["the", "and", "is", "are", "was", "were", "of", "to", "with", "that", "this", "it", "for", "you",
+		"not", "have", "has", "be", "what", "which", "they", "from", "but", "would", "there", "their", "will", "can"],
+	nl: ["de", "het", "een", "en", "van", "is", "niet", "dat", "die", "op", "te", "zijn", "met", "voor", "ook",
+		"maar", "wat", "wordt", "er", "nog", "bij", "naar", "heeft", "hij", "ik", "we", "dit", "deze", "uit", "geen"],
+	de: ["der", "die", "das", "und", "ist", "nicht", "ein", "eine", "zu", "mit", "sich", "auf", "für", "von",
+		"dem", "den", "auch", "es", "wird", "sind", "ich", "wir", "aber", "oder", "wie", "noch", "bei", "nach", "dass"],
+	fr: ["le", "la", "les", "et", "est", "des", "une", "un", "du", "que", "qui", "pas", "pour", "dans", "sur",
+		"avec", "ce", "il", "elle", "nous", "vous", "sont", "mais", "ou", "au"],
+	es: ["el", "la", "los", "las", "y", "es", "de", "que", "en", "un", "una", "por", "con", "no", "para", "se",
+		"del", "al", "lo", "como", "pero", "su", "está", "son"],
+	it: ["il", "la", "di", "che", "e", "è", "un", "una", "per", "non", "con", "sono", "del", "della", "gli",
+		"le", "ma", "anche", "come", "questo", "più"],
+};
+
+/** Non-Latin scripts and the language assumed for each, checked in order */
+const SCRIPTS: { re: RegExp; language: string }[] = [
+	{ re: /[\u3040-\u30FF]/g, language: "ja" },
+	{ re: /[\uAC00-\uD7AF\u1100-\u11FF]/g, language: "ko" },
+	{ re: /[\u4E00-\u9FFF]/g, language: "zh" },
+	{ re: /[\u0400-\u04FF]/g, language: "ru" },
+	{ re: /[\u0370-\u03FF]/g, language: "el" },
+	{ re: /[\u0590-\u05FF]/g, language: "he" },
+	{ re: /[\u0600-\u06FF]/g, language: "ar" },
+	{ re: /[\u0900-\u097F]/g, language: "hi" },
+	{ re: /[\u0E00-\u0E7F]/g, language: "th" },
+];
+
+const LATIN_LETTER_RE = /[a-zßà-öø-ÿ]/gi;
+const LATIN_WORD_RE = /[a-zßà-öø-ÿ]+/g;
+
+/** The primary subtag of a language tag: "en-US" and "en_GB" both give "en" */
+export function primaryLanguage(tag: string): string {
+	return tag.split(/[-_]/)[0].toLowerCase();
+}
+
+/**
+ * Assigns a language to every stretch of plain text, so each can be spoken
+ * by a matching voice. Sentences are guessed from their script and stop
+ * words, falling back to their paragraph's guess and then to the note's
+ * language; explicit `lang` attribute ranges override the guesses.
+ */
+export class LanguageDetector {
+	private stopwords: Record<string, Set<string>> = {};
+
+	constructor() {
+		for (const language of Object.keys(STOPWORDS)) {
+			this.stopwords[language] = new Set(STOPWORDS[language]);
+		}
+	}
+
+	/** Language ranges covering `text` from start to end, adjacent ranges differing in language */
+	detect(
+		text: string,
+		sentences: PlainRange[],
+		paragraphs: PlainRange[],
+		hints: LanguageRange[],
+		fallback: string
+	): LanguageRange[] {
+		let ranges: LanguageRange[] = [];
+		let p = 0;
+		let paragraphLanguage = fallback;
+		let guessedParagraph = -1;
+
+		sentences.forEach((sentence, s) => {
+			while (p + 1 < paragraphs.length && paragraphs[p].to <= sentence.from) p++;
+			if (p !== guessedParagraph && p < paragraphs.length) {
+				const paragraph = paragraphs[p];
+				paragraphLanguage = this.guess(text.substring(paragraph.from, paragraph.to)) ?? fallback;
+				guessedParagraph = p;
+			}
+			ranges.push({
+				from: s === 0 ? 0 : sentence.from,
+				to: s + 1 < sentences.length ? sentences[s + 1].from : text.length,
+				language: this.guess(text.substring(sentence.from, sentence.to)) ?? paragraphLanguage,
+			});
+		});
+
+		for (const hint of hints) ranges = this.overlay(ranges, hint);
+		return this.merge(ranges);
+	}
+
+	/** Guess the language of a stretch of text, or null when it is inconclusive */
+	guess(text: string): string | null {
+		const latin = (text.match(LATIN_LETTER_RE) ?? []).length;
+		for (const script of SCRIPTS) {
+			const count = (text.match(script.re) ?? []).length;
+			if (count > 0 && count >= latin) return script.language;
+		}
+
+		let best: string | null = null;
+		let bestHits = 0;
+		let runnerUpHits = 0;
+		const words = text.toLowerCase().match(LATIN_WORD_RE) ?? [];
+		for (const language of Object.keys(this.stopwords)) {
+			const set = this.stopwords[language];
+			const hits = words.filter((w) => set.has(w)).length;
+			if (hits > bestHits) {
+				runnerUpHits = bestHits;
+				bestHits = hits;
+				best = language;
+			} else if (hits > runnerUpHits) {
+				runnerUpHits = hits;
+			}
+		}
+		return bestHits >= MIN_STOPWORD_HITS && bestHits > runnerUpHits ? best : null;
+	}
+
+	/** Replace the language of [hint.from, hint.to) with the hint's */
+	private overlay(ranges: LanguageRange[], hint: LanguageRange): LanguageRange[] {
+		const result: LanguageRange[] = [];
+		for (const range of ranges) {
+			if (range.to <= hint.from || range.from >= hint.to) {
+				result.push(range);
+				continue;
+			}
+			if (range.from < hint.from) result.push({ ...range, to: hint.from });
+			if (range.to > hint.to) result.push({ ...range, from: hint.to });
+		}
+		result.push({ ...hint });
+		return result.sort((a, b) => a.from - b.from);
+	}
+
+	private merge(ranges: LanguageRange[]): LanguageRange[] {
+		const merged: LanguageRange[] = [];
+		for (const range of ranges) {
+			const last = merged[merged.length - 1];
+			if (last && last.language === range.language && last.to >= range.from) {
+				last.to = Math.max(last.to, range.to);
+			} else {
+				merged.push({ ...range });
+			}
+		}
+		return merged;
+	}
+}
@@ -0,0 +1,372 @@
+/** Greek letters spoken by name; capitals are prefixed with "capital" */
+const GREEK_LETTERS = new Set([
+	"alpha", "beta", "gamma", "delta", "epsilon", "varepsilon", "zeta", "eta", "theta", "vartheta",
+	"iota", "kappa", "lambda", "mu", "nu", "xi", "omicron", "pi", "varpi", "rho", "varrho", "sigma",
+	"varsigma", "tau", "upsilon", "phi", "varphi", "chi", "psi", "omega",
+]);
+
+/** Commands and symbols spoken as a fixed phrase */
+const SYMBOL_WORDS: Record<string, string> = {
+	"=": "equals",
+	"<": "is less than",
+	">": "is greater than",
+	"+": "plus",
+	"-": "minus",
+	"*": "times",
+	"/": "over",
+	"!": "factorial",
+	"'": "prime",
+	"\\neq": "is not equal to",
+	"\\ne": "is not equal to",
+	"\\leq": "is less than or equal to",
+	"\\le": "is less than or equal to",
+	"\\geq": "is greater than or equal to",
+	"\\ge": "is greater than or equal to",
+	"\\ll": "is much less than",
+	"\\gg": "is much greater than",
+	"\\approx": "is approximately equal to",
+	"\\equiv": "is equivalent to",
+	"\\sim": "is similar to",
+	"\\simeq": "is similar or equal to",
+	"\\cong": "is congruent to",
+	"\\propto": "is proportional to",
+	"\\in": "is in",
+	"\\notin": "is not in",
+	"\\subset": "is a subset of",
+	"\\subseteq": "is a subset of or equal to",
+	"\\supset": "is a superset of",
+	"\\supseteq": "is a superset of or equal to",
+	"\\cup": "union",
+	"\\cap": "intersection",
+	"\\setminus": "minus",
+	"\\emptyset": "the empty set",
+	"\\varnothing": "the empty set",
+	"\\forall": "for all",
+	"\\exists": "there exists",
+	"\\neg": "not",
+	"\\land": "and",
+	"\\wedge": "and",
+	"\\lor": "or",
+	"\\vee": "or",
+	"\\to": "to",
+	"\\rightarrow": "goes to",
+	"\\mapsto": "maps to",
+	"\\Rightarrow": "implies",
+	"\\implies": "implies",
+	"\\Leftarrow": "is implied by",
+	"\\iff": "if and only if",
+	"\\Leftrightarrow": "if and only if",
+	"\\pm": "plus or minus",
+	"\\mp": "minus or plus",
+	"\\times": "times",
+	"\\cdot": "times",
+	"\\div": "divided by",
+	"\\circ": "composed with",
+	"\\infty": "infinity",
+	"\\partial": "partial",
+	"\\nabla": "nabla",
+	"\\degree": "degrees",
+	"\\cdots": "dot dot dot",
+	"\\ldots": "dot dot dot",
+	"\\dots": "dot dot dot",
+	"\\prime": "prime",
+	"\\perp": "is perpendicular to",
+	"\\parallel": "is parallel to",
+	"\\angle": "angle",
+	"\\sin": "sine",
+	"\\cos": "cosine",
+	"\\tan": "tangent",
+	"\\cot": "cotangent",
+	"\\sec": "secant",
+	"\\csc": "cosecant",
+	"\\arcsin": "arc sine",
+	"\\arccos": "arc cosine",
+	"\\arctan": "arc tangent",
+	"\\sinh": "hyperbolic sine",
+	"\\cosh": "hyperbolic cosine",
+	"\\tanh": "hyperbolic tangent",
+	"\\log": "log",
+	"\\ln": "natural log",
+	"\\exp": "exponential",
+	"\\det": "determinant",
+	"\\max": "max",
+	"\\min": "min",
+	"\\sup": "supremum",
+	"\\inf": "infimum",
+	"\\gcd": "gcd",
+	"\\mod": "mod",
+	"\\bmod": "mod",
+	"&": ",",
+	"\\\\": ",",
+	",": ",",
+	";": ",",
+};
+
+/** Large operators that take limits, spoken as "the sum from … to … of" */
+const BIG_OPERATORS: Record<string, string> = {
+	"\\sum": "the sum",
+	"\\prod": "the product",
+	"\\int": "the integral",
+	"\\iint": "the double integral",
+	"\\iiint": "the triple integral",
+	"\\oint": "the contour integral",
+	"\\bigcup": "the union",
+	"\\bigcap": "the intersection",
+};
+
+/** Accents spoken after their argument ("x hat") */
+const ACCENT_WORDS: Record<string, string> = {
+	"\\hat": "hat",
+	"\\widehat": "hat",
+	"\\bar": "bar",
+	"\\overline": "bar",
+	"\\tilde": "tilde",
+	"\\widetilde": "tilde",
+	"\\dot": "dot",
+	"\\ddot": "double dot",
+};
+
+/** Commands that only change the font; their argument is read as math */
+const FONT_COMMANDS = new Set([
+	"\\mathrm", "\\mathit", "\\mathbf", "\\mathbb", "\\mathcal", "\\mathfrak", "\\mathsf", "\\mathtt",
+	"\\boldsymbol",
+]);
+
+/** Commands whose argument is ordinary text, read as words */
+const TEXT_COMMANDS = new Set(["\\text", "\\textrm", "\\textit", "\\textbf", "\\operatorname", "\\mbox"]);
+
+/** Commands and characters that are not spoken at all */
+const SILENT_TOKENS = new Set([
+	"\\left", "\\right", "\\big", "\\Big", "\\bigg", "\\Bigg", "\\bigl", "\\bigr", "\\Bigl", "\\Bigr",
+	"\\,", "\\;", "\\:", "\\!", "\\ ", "\\quad", "\\qquad", "\\displaystyle", "\\limits", "\\nolimits",
+	"\\{", "\\}", "\\langle", "\\rangle", "\\lvert", "\\rvert", "\\lVert", "\\rVert", "\\|",
+	")", "[", "]", "|", ".", "~",
+]);
+
+/** Spoken names of roots with small indices */
+const ROOT_NAMES: Record<string, string> = { "2": "square", "3": "cube" };
+
+interface MathContext {
+	tokens: string[];
+	pos: number;
+}
+
+/**
+ * Turns LaTeX math into spoken English: fractions, roots, powers,
+ * subscripts, Greek letters, big operators with limits and relations.
+ * Unknown commands are read by name so nothing is silently lost.
+ */
+export class MathVerbalizer {
+	/** Verbalize a formula without its `$` delimiters */
+	verbalize(latex: string): string {
+		const ctx: MathContext = { tokens: this.tokenize(latex), pos: 0 };
+		const words: string[] = [];
+		while (ctx.pos < ctx.tokens.length) {
+			// Stray closing braces would otherwise end the formula early
+			if (ctx.tokens[ctx.pos] === "}") {
+				ctx.pos++;
+				continue;
+			}
+			words.push(...this.parseSequence(ctx, "}"));
+		}
+		return this.joinWords(words);
+	}
+
+	/** Split LaTeX into commands, numbers, letter runs and single characters */
+	private tokenize(latex: string): string[] {
+		const tokens: string[] = [];
+		const tokenRe = /\\[a-zA-Z]+|\\[^a-zA-Z]|\d+(?:\.\d+)?|[a-zA-Z]+|\S/g;
+		let match: RegExpExecArray | null;
+		while ((match = tokenRe.exec(latex))) {
+			tokens.push(match[0]);
+		}
+		return tokens;
+	}
+
+	/** Parse atoms with their scripts until `stop` or a closing brace (not consumed) */
+	private parseSequence(ctx: MathContext, stop: string): string[] {
+		const words: string[] = [];
+		while (ctx.pos < ctx.tokens.length && ctx.tokens[ctx.pos] !== stop && ctx.tokens[ctx.pos] !== "}") {
+			const base = this.parseAtom(ctx);
+			words.push(...this.parseScripts(ctx, base));
+		}
+		return words;
+	}
+
+	/** Parse a braced group or a single atom */
+	private parseGroup(ctx: MathContext): string[] {
+		if (ctx.tokens[ctx.pos] !== "{") return this.parseAtom(ctx);
+		ctx.pos++;
+		const words = this.parseSequence(ctx, "}");
+		this.consume(ctx, "}");
+		return words;
+	}
+
+	/** Parse a parenthesized expression; compound ones are spoken as "the quantity …" */
+	private parseParenthesized(ctx: MathContext): string[] {
+		const words = this.parseSequence(ctx, ")");
+		this.consume(ctx, ")");
+		return words.length > 1 ? ["the quantity", ...words, ","] : words;
+	}
+
+	/** Read a text argument as words rather than spelling it out */
+	private parseText(ctx: MathContext): string[] {
+		if (!this.consume(ctx, "{")) return [];
+		const words: string[] = [];
+		let depth = 1;
+		while (ctx.pos < ctx.tokens.length) {
+			const token = ctx.tokens[ctx.pos++];
+			if (token === "{") depth++;
+			else if (token === "}" && --depth === 0) break;
+			else words.push(token);
+		}
+		return words;
+	}
+
+	/** Skip `token` if it comes next */
+	private consume(ctx: MathContext, token: string): boolean {
+		if (ctx.tokens[ctx.pos] !== token) return false;
+		ctx.pos++;
+		return true;
+	}
+
+	/** Append spoken subscripts, primes and powers following a base */
+	private parseScripts(ctx: MathContext, base: string[]): string[] {
+		const words = [...base];
+		for (;;) {
+			const token = ctx.tokens[ctx.pos];
+			if (token === "_") {
+				ctx.pos++;
+				words.push("sub", ...this.parseGroup(ctx));
+			} else if (token === "^") {
+				ctx.pos++;
+				words.push(...this.describePower(this.parseGroup(ctx)));
+			} else if (token === "'") {
+				ctx.pos++;
+				words.push("prime");
+			} else {
+				return words;
+			}
+		}
+	}
+
+	private describePower(exponent: string[]): string[] {
+		if (exponent.length === 0) return [];
+		if (exponent.length === 1) {
+			if (exponent[0] === "2") return ["squared"];
+			if (exponent[0] === "3") return ["cubed"];
+			if (exponent[0] === "prime") return ["prime"];
+			return ["to the power of", exponent[0]];
+		}
+		return ["raised to the", ...exponent, "power"];
+	}
+
+	/** Parse one atom: a symbol, number, letter run, group or command with arguments */
+	private parseAtom(ctx: MathContext): string[] {
+		const token = ctx.tokens[ctx.pos++];
+		if (token === undefined) return [];
+		if (token === "{") {
+			ctx.pos--;
+			return this.parseGroup(ctx);
+		}
+
+		if (/^[a-zA-Z]+$/.test(token)) return token.split("");
+		if (/^\d/.test(token)) return [token];
+		if (SILENT_TOKENS.has(token)) return [];
+		if (token in SYMBOL_WORDS) return [SYMBOL_WORDS[token]];
+		if (token in BIG_OPERATORS) return this.parseBigOperator(ctx, BIG_OPERATORS[token]);
+		if (token in ACCENT_WORDS) return [...this.parseGroup(ctx), ACCENT_WORDS[token]];
+		if (token === "(") return this.parseParenthesized(ctx);
+		if (FONT_COMMANDS.has(token)) return this.parseGroup(ctx);
+		if (TEXT_COMMANDS.has(token)) return this.parseText(ctx);
+
+		const name = token.substring(1);
+		if (GREEK_LETTERS.has(name)) return [name.replace(/^var/, "")];
+		if (GREEK_LETTERS.has(name.toLowerCase())) return ["capital", name.toLowerCase()];
+
+		switch (token) {
+			case "\\frac":
+			case "\\dfrac":
+			case "\\tfrac":
+				return this.parseFraction(ctx);
+			case "\\sqrt":
+				return this.parseRoot(ctx);
+			case "\\lim":
+				return this.parseLimit(ctx);
+			case "\\vec":
+				return ["vector", ...this.parseGroup(ctx)];
+			case "\\begin":
+			case "\\end":
+				this.parseGroup(ctx);
+				return [];
+		}
+
+		// Unknown command or character: read it by name
+		return token.startsWith("\\") ? [name] : [token];
+	}
+
+	private parseFraction(ctx: MathContext): string[] {
+		const numerator = this.parseGroup(ctx);
+		const denominator = this.parseGroup(ctx);
+		if (numerator.length === 1 && denominator.length === 1) {
+			return [numerator[0], "over", denominator[0]];
+		}
+		return ["the fraction with numerator", ...numerator, "and denominator", ...denominator, ","];
+	}
+
+	private parseRoot(ctx: MathContext): string[] {
+		let index: string[] = [];
+		if (this.consume(ctx, "[")) {
+			index = this.parseSequence(ctx, "]");
+			this.consume(ctx, "]");
+		}
+		const radicand = this.parseGroup(ctx);
+		const indexText = index.join(" ");
+		const rootName = index.length === 0 ? "square" : ROOT_NAMES[indexText] ?? `${indexText}-th`;
+		return [`the ${rootName} root of`, ...radicand, ...(radicand.length > 1 ? [","] : [])];
+	}
+
+	/** "the sum from i equals 1 to n of" — limits may come in either order */
+	private parseBigOperator(ctx: MathContext, name: string): string[] {
+		let lower: string[] = [];
+		let upper: string[] = [];
+		for (;;) {
+			const token = ctx.tokens[ctx.pos];
+			if (token === "_") {
+				ctx.pos++;
+				lower = this.parseGroup(ctx);
+			} else if (token === "^") {
+				ctx.pos++;
+				upper = this.parseGroup(ctx);
+			} else if (token === "\\limits" || token === "\\nolimits") {
+				ctx.pos++;
+			} else {
+				break;
+			}
+		}
+
+		const words = [name];
+		if (lower.length > 0) words.push(upper.length > 0 ? "from" : "over", ...lower);
+		if (upper.length > 0) words.push("to", ...upper);
+		words.push("of");
+		return words;
+	}
+
+	/** "the limit as x approaches 0 of" */
+	private parseLimit(ctx: MathContext): string[] {
+		if (ctx.tokens[ctx.pos] !== "_") return ["the limit of"];
+		ctx.pos++;
+		const below = this.parseGroup(ctx).map((word) => (word === "to" || word === "goes to" ? "approaches" : word));
+		return ["the limit as", ...below, "of"];
+	}
+
+	/** Join words with single spaces, attaching pauses to the preceding word */
+	private joinWords(words: string[]): string {
+		return words
+			.join(" ")
+			.replace(/\s+/g, " ")
+			.replace(/ ,/g, ",")
+			.replace(/,(?:\s*,)+/g, ",")
+			.replace(/^[\s,]+|[\s,]+$/g, "");
+	}
+}
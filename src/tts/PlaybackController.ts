@@ -1,47 +1,93 @@
+import type { ChangeSet } from "@codemirror/state";
 import { EditorView } from "@codemirror/view";
-import type { TTSSettings, PreparedText, PlaybackState, EditorRange } from "../types";
+import type {
+	TTSSettings,
+	PreparedText,
+	PlaybackState,
+	PlaybackProgress,
+	EditorRange,
+	PlainRange,
+	SpeechBackendType,
+	EmbeddedNotes,
+	PositionMapEntry,
+	ReadingTarget,
+	ReadingSection,
+} from "../types";
+import type { SpeechBackend } from "./SpeechBackend";
 import { SpeechEngine } from "./SpeechEngine";
+import { HttpSpeechBackend } from "./HttpSpeechBackend";
 import { TextPreparer } from "./TextPreparer";
-import { setTTSHighlight } from "../editor/highlightExtension";
-import { ReadingHighlighter } from "../editor/readingHighlighter";
+import { ProgressEstimator } from "./ProgressEstimator";
+import { setTTSHighlight, setTTSSentenceHighlight, setTTSSpokenHighlight } from "../editor/highlightExtension";
+import { ReadingHighlighter, type SectionText } from "../editor/readingHighlighter";
+import type { TimingRecorder } from "./TimingRecorder";
 
 /** Pixel margin for scroll-into-view edge detection */
 const SCROLL_MARGIN_PX = 50;
 
 export type HighlightCallback = (range: EditorRange) => void;
-export type StateChangeCallback = (state: PlaybackState, chunkIndex: number, totalChunks: number) => void;
-export type EndCallback = () => void;
+/** Called when the playback state changes and as each word is spoken */
+export type StateChangeCallback = (state: PlaybackState, progress: PlaybackProgress) => void;
+/** Called when playback ends; `finished` is false when it was stopped early */
+export type EndCallback = (finished: boolean) => void;
 
 export class PlaybackController {
-	private engine: SpeechEngine;
+	private engine: SpeechBackend;
+	private backendType: SpeechBackendType = "webspeech";
 	private preparer: TextPreparer;
+	private progress = new ProgressEstimator();
 	private readingHighlighter: ReadingHighlighter;
 	/** Separate highlighter for Live Preview widget content (tables etc.) */
 	private widgetHighlighter: ReadingHighlighter;
+	/** Searches the rendered embed being read in Live Preview */
+	private embedHighlighter: ReadingHighlighter;
+	private embedContainer: HTMLElement | null = null;
+	/** Embedded notes of the session, kept to re-prepare text after edits */
+	private embeds: EmbeddedNotes = {};
 	private prepared: PreparedText | null = null;
 	private currentChunk = 0;
+	/** Chunk-local offset where the current utterance starts (non-zero after a seek) */
+	private speakOffset = 0;
+	/** A seek while paused cancelled the utterance; resume() speaks from the new position */
+	private restartOnResume = false;
+	/** Global plain-text offset of the last spoken word */
+	private lastPlainOffset = 0;
+	/** Editor offset of the last spoken word; kept after stop for saving positions */
+	private lastEditorOffset: number | null = null;
 	private state: PlaybackState = "idle";
 	private editorView: EditorView | null = null;
 	private readingContainer: HTMLElement | null = null;
+	private readingTarget: ReadingTarget | null = null;
+	/** Spoken text of rendered sections, for the prepared text it was computed from */
+	private sectionTexts = new WeakMap<ReadingSection, SectionText>();
+	private sectionTextsFor: PreparedText | null = null;
 	private lastHighlightFrame: number | null = null;
+	/** Sentence currently highlighted in reading mode (plain-text coordinates) */
+	private currentSentence: PlainRange | null = null;
+	/** Substitution currently highlighted in reading mode, spoken over several words */
+	private currentSubstitution: PlainRange | null = null;
+	/** The raw markdown being read and its editor offset */
+	private sourceText = "";
+	private sourceOffset = 0;
 	private settings: TTSSettings | null = null;
 	/** Whether the current playback target is reading mode */
 	private isReadingMode = false;
 
+	/** Optional recorder receiving timed boundary events */
+	private recorder: TimingRecorder | null = null;
+
 	// Callbacks
 	private onStateChange: StateChangeCallback | null = null;
 	private onHighlight: HighlightCallback | null = null;
 	private onEnd: EndCallback | null = null;
 
 	constructor() {
-		this.engine = new SpeechEngine();
+		this.engine = this.createBackend(this.backendType);
+		this.bindEngine();
 		this.preparer = new TextPreparer();
 		this.readingHighlighter = new ReadingHighlighter();
 		this.widgetHighlighter = new ReadingHighlighter();
-
-		this.engine.setBoundaryCallback((ci: number, cl: number) => this.handleBoundary(ci, cl));
-		this.engine.setEndCallback(() => this.handleChunkEnd());
-		this.engine.setErrorCallback((err: string) => this.handleError(err));
+		this.embedHighlighter = new ReadingHighlighter();
 	}
 
 	setStateChangeCallback(cb: StateChangeCallback): void {
@@ -56,6 +102,11 @@ export class PlaybackController {
 		this.onEnd = cb;
 	}
 
+	/** Attach a recorder that captures every session's word timings */
+	setTimingRecorder(recorder: TimingRecorder | null): void {
+		this.recorder = recorder;
+	}
+
 	getState(): PlaybackState {
 		return this.state;
 	}
@@ -68,20 +119,43 @@ export class PlaybackController {
 		return this.prepared?.chunks.length ?? 0;
 	}
 
+	/** Settings of the current or last session, including per-note overrides and live changes */
+	getSettings(): TTSSettings | null {
+		return this.settings;
+	}
+
+	/** Editor range of the text being read, kept in step with edits; null while idle */
+	getSourceRange(): { from: number; to: number } | null {
+		if (this.state === "idle") return null;
+		return { from: this.sourceOffset, to: this.sourceOffset + this.sourceText.length };
+	}
+
+	/** Editor offset of the last spoken word of the current or last session */
+	getLastEditorOffset(): number | null {
+		return this.lastEditorOffset;
+	}
+
 	play(
 		rawText: string,
 		settings: TTSSettings,
 		editorView: EditorView | null,
-		readingContainer: HTMLElement | null,
-		editorOffset = 0
+		reading: ReadingTarget | null,
+		editorOffset = 0,
+		embeds: EmbeddedNotes = {}
 	): void {
 		this.stop();
+		this.lastEditorOffset = null;
+		this.useBackend(settings.backend);
 		this.settings = settings;
 		this.editorView = editorView;
-		this.readingContainer = readingContainer;
-		this.isReadingMode = readingContainer !== null;
+		this.readingTarget = reading;
+		this.readingContainer = reading?.container ?? null;
+		this.isReadingMode = reading !== null;
+		this.sourceText = rawText;
+		this.sourceOffset = editorOffset;
+		this.embeds = embeds;
 
-		this.prepared = this.preparer.prepare(rawText, settings.chunkSize, editorOffset);
+		this.prepared = this.preparer.prepare(rawText, settings.chunkSize, editorOffset, { ...settings, embeds });
 
 		if (this.prepared.chunks.length === 0) {
 			return;
@@ -89,27 +163,176 @@ export class PlaybackController {
 
 		// Prepare the DOM-based highlighters
 		if (this.readingContainer) {
-			this.readingHighlighter.prepare(this.readingContainer);
+			this.readingHighlighter.prepare(this.readingContainer, settings.spokenStyle !== "off");
 		}
 		if (this.editorView) {
 			this.widgetHighlighter.reset();
+			this.resetEmbedHighlighter();
 		}
 
 		this.currentChunk = 0;
+		this.speakOffset = 0;
+		this.lastPlainOffset = 0;
+		this.recorder?.start(this.prepared);
+		this.progress.setText(this.prepared.text);
+		this.setState("playing");
+		this.speakCurrentChunk();
+	}
+
+	/**
+	 * Restart speech from a global plain-text offset, possibly mid-chunk.
+	 * Resumes playback if paused.
+	 */
+	seekToPlain(plainOffset: number): void {
+		if (!this.moveTo(plainOffset)) return;
+		this.recorder?.resume();
 		this.setState("playing");
 		this.speakCurrentChunk();
 	}
 
+	/**
+	 * Move to a plain-text offset like `seekToPlain`, but stay silent while
+	 * paused: speech starts from the new position on `resume()`.
+	 */
+	private seekKeepingPause(plainOffset: number): void {
+		if (this.state !== "paused") {
+			this.seekToPlain(plainOffset);
+			return;
+		}
+		if (!this.moveTo(plainOffset)) return;
+		this.restartOnResume = true;
+		this.emitStateChange();
+	}
+
+	/** Stop speech and move the playback position to a plain-text offset */
+	private moveTo(plainOffset: number): boolean {
+		if (!this.prepared || this.state === "idle") return false;
+
+		const { chunkOffsets, text } = this.prepared;
+		const offset = Math.max(0, Math.min(plainOffset, text.length - 1));
+		let chunk = 0;
+		while (chunk + 1 < chunkOffsets.length && chunkOffsets[chunk + 1] <= offset) chunk++;
+
+		this.engine.cancel();
+		this.progress.interrupt();
+		this.clearHighlight();
+		this.widgetHighlighter.reset();
+		this.resetEmbedHighlighter();
+		if (this.readingContainer) {
+			this.readingHighlighter.syncTo(this.readingContainer, text.substring(0, offset));
+		}
+
+		this.currentChunk = chunk;
+		this.speakOffset = offset - chunkOffsets[chunk];
+		this.lastPlainOffset = offset;
+		this.lastEditorOffset = this.preparer.toEditorRange(this.prepared.map, offset, offset + 1)?.from ?? null;
+		return true;
+	}
+
+	/**
+	 * Restart playback from the word at an editor offset. Only applies when
+	 * `view` is the editor currently being read. Returns true if it seeked.
+	 */
+	seekToEditorOffset(view: EditorView, editorOffset: number): boolean {
+		if (view !== this.editorView) return false;
+		return this.seekToMappedOffset(editorOffset);
+	}
+
+	/**
+	 * Restart playback from an editor offset inside the text being read,
+	 * such as a heading. Returns false when the offset is outside that text.
+	 */
+	seekToSourceOffset(editorOffset: number): boolean {
+		if (editorOffset < this.sourceOffset || editorOffset > this.sourceOffset + this.sourceText.length) return false;
+		return this.seekToMappedOffset(editorOffset);
+	}
+
+	/**
+	 * Restart playback from the word under a click in reading mode.
+	 * Returns true if the click was inside the container being read.
+	 */
+	seekToReadingPoint(event: MouseEvent): boolean {
+		if (!this.prepared || this.state === "idle" || !this.readingContainer) return false;
+		if (!(event.target instanceof Node) || !this.readingContainer.contains(event.target)) return false;
+
+		// Resolve within the clicked section when known, else by sequential search
+		const target = event.target;
+		const section = this.readingTarget?.getSections().find((s) => s.el.contains(target));
+		const sectionText = section ? this.toSectionText(section) : null;
+		const plain = sectionText
+			? this.readingHighlighter.plainOffsetInSection(sectionText, event.clientX, event.clientY)
+			: this.readingHighlighter.plainOffsetAtPoint(
+				this.readingContainer,
+				event.clientX,
+				event.clientY,
+				this.prepared.text
+			);
+		if (plain === null) return false;
+
+		this.seekToPlain(plain);
+		return true;
+	}
+
+	/** Position in the plain text being read, and the sentence being spoken */
+	getPosition(): { offset: number; length: number; sentence: string } | null {
+		if (!this.prepared || this.state === "idle") return null;
+		const { text, sentences } = this.prepared;
+		const sentence = sentences[this.preparer.findRangeIndex(sentences, this.lastPlainOffset)];
+		return {
+			offset: this.lastPlainOffset,
+			length: text.length,
+			sentence: sentence ? text.substring(sentence.from, sentence.to) : "",
+		};
+	}
+
+	/** Progress of the current session, with the time left at the measured speed */
+	getProgress(): PlaybackProgress {
+		const { percent, remainingSeconds } = this.state === "idle"
+			? { percent: 0, remainingSeconds: 0 }
+			: this.progress.estimate(this.lastPlainOffset, this.settings?.rate ?? 1);
+		return {
+			chunkIndex: this.currentChunk,
+			totalChunks: this.prepared?.chunks.length ?? 0,
+			percent,
+			remainingSeconds,
+		};
+	}
+
+	/** Jump to the start of the next (1) or previous (-1) sentence */
+	skipSentence(direction: 1 | -1): void {
+		if (this.prepared) this.skipRange(this.prepared.sentences, direction);
+	}
+
+	/** Jump to the start of the next (1) or previous (-1) paragraph */
+	skipParagraph(direction: 1 | -1): void {
+		if (this.prepared) this.skipRange(this.prepared.paragraphs, direction);
+	}
+
 	pause(): void {
 		if (this.state !== "playing") return;
 		this.engine.pause();
+		this.recorder?.pause();
+		this.progress.interrupt();
 		this.setState("paused");
 	}
 
 	resume(): void {
 		if (this.state !== "paused") return;
-		this.engine.resume();
+		this.recorder?.resume();
 		this.setState("playing");
+		if (this.restartOnResume) this.speakCurrentChunk();
+		else this.engine.resume();
+	}
+
+	/**
+	 * Change the voice, rate or volume of the current session. The utterance
+	 * is restarted from the word being spoken so the change is heard at once,
+	 * or on resume when paused.
+	 */
+	updateVoice(changes: Partial<Pick<TTSSettings, "voice" | "rate" | "volume">>): void {
+		if (!this.settings || this.state === "idle") return;
+		this.settings = { ...this.settings, ...changes };
+		this.seekKeepingPause(this.wordStart(this.lastPlainOffset));
 	}
 
 	togglePause(): void {
@@ -123,51 +346,200 @@ export class PlaybackController {
 	stop(): void {
 		if (this.state === "idle") return;
 		this.engine.cancel();
+		this.recorder?.finish();
 		this.clearHighlight();
 		this.readingHighlighter.reset();
 		this.widgetHighlighter.reset();
+		this.resetEmbedHighlighter();
 		this.setState("idle");
 		this.prepared = null;
-		this.onEnd?.();
+		this.onEnd?.(false);
+	}
+
+	/** Whether `view` is the editor being read */
+	isReading(view: EditorView): boolean {
+		return this.state !== "idle" && view === this.editorView;
 	}
 
-	notifyDocumentChanged(): void {
-		if (this.state !== "idle") {
-			this.stop();
+	/**
+	 * Keep playing through an edit of the editor being read. Edits behind
+	 * the current word only shift the position map; edits at or ahead of it
+	 * re-prepare the rest of the text and restart from the current word.
+	 */
+	applyEdit(view: EditorView, changes: ChangeSet): void {
+		if (!this.prepared || !this.settings || !this.isReading(view)) return;
+
+		const resumePlain = this.wordStart(this.lastPlainOffset);
+		const playhead = this.preparer.toEditorRange(this.prepared.map, resumePlain, resumePlain + 1)?.from
+			?? this.sourceOffset + this.sourceText.length;
+		let touchesRest = false;
+		changes.iterChangedRanges((fromA, toA) => {
+			if (toA > playhead || fromA >= playhead) touchesRest = true;
+		});
+
+		const sourceFrom = changes.mapPos(this.sourceOffset, 1);
+		const sourceTo = Math.max(sourceFrom, changes.mapPos(this.sourceOffset + this.sourceText.length, 1));
+		this.sourceOffset = sourceFrom;
+		this.sourceText = view.state.doc.sliceString(sourceFrom, sourceTo);
+		this.prepared = { ...this.prepared, map: this.mapThroughChanges(this.prepared, changes) };
+		if (this.lastEditorOffset !== null) this.lastEditorOffset = changes.mapPos(this.lastEditorOffset);
+		if (!touchesRest) return;
+
+		const restFrom = Math.max(sourceFrom, changes.mapPos(playhead, -1));
+		const rest = this.preparer.prepare(
+			view.state.doc.sliceString(restFrom, sourceTo),
+			this.settings.chunkSize,
+			restFrom,
+			{ ...this.settings, embeds: this.embeds }
+		);
+		this.prepared = this.preparer.splice(this.prepared, resumePlain, rest, this.settings.chunkSize);
+		this.recorder?.replacePrepared(this.prepared);
+		this.progress.setText(this.prepared.text);
+
+		if (resumePlain >= this.prepared.text.length) {
+			// Everything still to be read was deleted
+			this.engine.cancel();
+			this.currentChunk = this.prepared.chunks.length;
+			this.speakCurrentChunk();
+			return;
 		}
+
+		this.seekKeepingPause(resumePlain);
+	}
+
+	/**
+	 * Map position map entries through an edit. Runs of contiguous text are
+	 * split where a change ends inside them, so text after the change shifts
+	 * while text before it stays put.
+	 */
+	private mapThroughChanges(prepared: PreparedText, changes: ChangeSet): PositionMapEntry[] {
+		const cuts: number[] = [];
+		changes.iterChangedRanges((_fromA, toA) => cuts.push(toA));
+
+		const { map, text } = prepared;
+		const result: PositionMapEntry[] = [];
+		for (let i = 0; i < map.length; i++) {
+			const entry = map[i];
+			const runLength = (i + 1 < map.length ? map[i + 1].plain : text.length) - entry.plain;
+			result.push({ plain: entry.plain, editor: changes.mapPos(entry.editor, 1) });
+			for (const cut of cuts) {
+				if (cut > entry.editor && cut < entry.editor + runLength) {
+					result.push({ plain: entry.plain + cut - entry.editor, editor: changes.mapPos(cut, 1) });
+				}
+			}
+		}
+		return result;
+	}
+
+	/** Map an editor offset to a plain-text offset and seek to the start of its word there */
+	private seekToMappedOffset(editorOffset: number): boolean {
+		if (!this.prepared || this.state === "idle") return false;
+
+		const plain = this.preparer.toPlainOffset(this.prepared.map, editorOffset);
+		if (plain === null || plain >= this.prepared.text.length) return false;
+
+		this.seekToPlain(this.wordStart(plain));
+		return true;
+	}
+
+	/** Move a plain-text offset back to the start of its word */
+	private wordStart(plainOffset: number): number {
+		const text = this.prepared?.text ?? "";
+		let start = plainOffset;
+		while (start > 0 && !/\s/.test(text[start - 1])) start--;
+		return start;
+	}
+
+	private skipRange(ranges: PlainRange[], direction: 1 | -1): void {
+		if (this.state === "idle" || ranges.length === 0) return;
+		const current = this.preparer.findRangeIndex(ranges, this.lastPlainOffset);
+		const target = ranges[Math.max(0, current + direction)];
+		if (!target) return;
+		this.seekToPlain(target.from);
+	}
+
+	/** Swap the speech backend if the configured type changed */
+	private useBackend(type: SpeechBackendType): void {
+		if (type === this.backendType) return;
+		this.engine.cancel();
+		this.backendType = type;
+		this.engine = this.createBackend(type);
+		this.bindEngine();
+	}
+
+	/** The backend for `type`; without the Web Speech API only the server can speak */
+	private createBackend(type: SpeechBackendType): SpeechBackend {
+		return type === "server" || !SpeechEngine.isSupported() ? new HttpSpeechBackend() : new SpeechEngine();
+	}
+
+	private bindEngine(): void {
+		this.engine.setBoundaryCallback((ci: number, cl: number) => this.handleBoundary(ci, cl));
+		this.engine.setEndCallback(() => this.handleChunkEnd());
+		this.engine.setErrorCallback((err: string) => this.handleError(err));
 	}
 
 	private speakCurrentChunk(): void {
 		if (!this.prepared || !this.settings) return;
+		this.restartOnResume = false;
 		if (this.currentChunk >= this.prepared.chunks.length) {
+			this.recorder?.finish();
 			this.clearHighlight();
 			this.setState("idle");
-			this.onEnd?.();
+			this.onEnd?.(true);
 			return;
 		}
 
-		this.engine.speak(this.prepared.chunks[this.currentChunk], this.settings);
+		const chunk = this.prepared.chunks[this.currentChunk];
+		this.engine.speak(chunk.substring(this.speakOffset), this.settings, this.chunkLanguage());
+	}
+
+	/** Language of the current chunk, or "" when unknown or detection is off */
+	private chunkLanguage(): string {
+		if (!this.prepared) return "";
+		const start = this.prepared.chunkOffsets[this.currentChunk] ?? 0;
+		const range = this.prepared.languages.find((r) => r.from <= start && start < r.to);
+		return range?.language ?? "";
 	}
 
 	private handleBoundary(charIndex: number, charLength: number): void {
 		if (!this.prepared || this.state !== "playing") return;
 
-		// Convert chunk-local charIndex to global plain-text index
+		// Convert utterance-local charIndex to global plain-text index
 		const chunkOffset = this.prepared.chunkOffsets[this.currentChunk] ?? 0;
-		const globalPlainFrom = chunkOffset + charIndex;
+		const localFrom = this.speakOffset + charIndex;
+		const globalPlainFrom = chunkOffset + localFrom;
 		const globalPlainTo = globalPlainFrom + charLength;
+		this.lastPlainOffset = globalPlainFrom;
 
-		const editorRange = this.preparer.toEditorRange(
-			this.prepared.map,
-			globalPlainFrom,
-			globalPlainTo
-		);
+		const { map, sentences, substitutions, embeds } = this.prepared;
+		const embed = this.findContaining(embeds, globalPlainFrom);
+		const substitution = embed ? null : this.findContaining(substitutions, globalPlainFrom);
+
+		// A word from an embedded note highlights the whole embed link in the
+		// editor, and a substituted word the whole source token it stands for
+		const tokenRange = embed ?? substitution;
+		const editorRange = tokenRange
+			? this.preparer.toEditorRange(map, tokenRange.from, tokenRange.to)
+			: this.preparer.toEditorRange(map, globalPlainFrom, globalPlainTo);
 
 		if (!editorRange) return;
+		this.lastEditorOffset = editorRange.from;
 
-		// Extract the actual word text from the chunk for DOM-based search
+		// Text to search for in rendered DOM: substitutions by their source
+		// text, embedded words as spoken unless they were substituted there
 		const chunk = this.prepared.chunks[this.currentChunk];
-		const wordText = chunk.substring(charIndex, charIndex + charLength);
+		let wordText = chunk.substring(localFrom, localFrom + charLength);
+		if (substitution) {
+			wordText = this.sourceText.substring(editorRange.from - this.sourceOffset, editorRange.to - this.sourceOffset);
+		} else if (embed && this.findContaining(substitutions, globalPlainFrom)) {
+			wordText = "";
+		}
+
+		const sentenceIndex = this.preparer.findRangeIndex(sentences, globalPlainFrom);
+		const sentence = this.settings?.sentenceHighlight ? sentences[sentenceIndex] ?? null : null;
+		this.recorder?.recordWord(globalPlainFrom, globalPlainTo, sentenceIndex);
+		this.progress.recordWord(this.settings?.rate ?? 1);
+		this.emitStateChange();
 
 		// Throttle highlight updates with requestAnimationFrame
 		if (this.lastHighlightFrame !== null) {
@@ -176,19 +548,32 @@ export class PlaybackController {
 
 		this.lastHighlightFrame = requestAnimationFrame(() => {
 			this.lastHighlightFrame = null;
-			this.applyHighlight(editorRange, wordText);
+			this.applyHighlight(editorRange, { from: globalPlainFrom, to: globalPlainTo }, wordText, sentence, substitution);
 		});
 	}
 
-	private applyHighlight(editorRange: EditorRange, wordText: string): void {
-		// --- Reading mode: use sequential DOM word search ---
-		if (this.readingContainer) {
-			this.readingHighlighter.highlightWord(this.readingContainer, wordText);
+	/** Find the range containing a plain-text offset, if any */
+	private findContaining(ranges: PlainRange[], plainIndex: number): PlainRange | null {
+		const range = ranges[this.preparer.findRangeIndex(ranges, plainIndex)];
+		return range && range.from <= plainIndex ? range : null;
+	}
 
-			if (this.settings?.autoScroll) {
-				this.scrollToMark(this.readingContainer);
-			}
+	/** Whether a substitution is a verbalized math formula */
+	private isFormula(range: PlainRange): boolean {
+		const formula = this.prepared ? this.findContaining(this.prepared.formulas, range.from) : null;
+		return !!formula && formula.to === range.to;
+	}
 
+	private applyHighlight(
+		editorRange: EditorRange,
+		word: PlainRange,
+		wordText: string,
+		sentence: PlainRange | null,
+		substitution: PlainRange | null
+	): void {
+		// --- Reading mode: locate the word in its rendered section ---
+		if (this.readingContainer) {
+			this.applyReadingHighlight(this.readingContainer, editorRange, word, wordText, sentence, substitution);
 			this.onHighlight?.(editorRange);
 			return;
 		}
@@ -198,10 +583,23 @@ export class PlaybackController {
 			try {
 				// Clear previous widget highlight
 				this.widgetHighlighter.clear();
+				this.embedHighlighter.clear();
+
+				const sentenceRange = sentence && this.prepared
+					? this.preparer.toEditorRange(this.prepared.map, sentence.from, sentence.to)
+					: null;
+				// Everything read so far, growing with each word
+				const spokenRange = this.settings?.spokenStyle !== "off"
+					? { from: this.sourceOffset, to: editorRange.from }
+					: null;
 
-				// Apply CM6 decoration (works for regular text in both modes)
+				// Apply CM6 decorations (works for regular text in both modes)
 				this.editorView.dispatch({
-					effects: setTTSHighlight.of(editorRange),
+					effects: [
+						setTTSSpokenHighlight.of(spokenRange),
+						setTTSSentenceHighlight.of(sentenceRange),
+						setTTSHighlight.of(editorRange),
+					],
 				});
 
 				// Check if the CM6 decoration is actually visible in the DOM.
@@ -212,7 +610,7 @@ export class PlaybackController {
 				if (!markedSpan) {
 					// Decoration not rendered → position is inside a widget.
 					// Search for the word in widget elements using sequential DOM search.
-					this.highlightInWidgets(wordText);
+					this.highlightInWidgets(wordText, editorRange.from);
 				}
 
 				// Auto-scroll
@@ -245,13 +643,132 @@ export class PlaybackController {
 		this.onHighlight?.(editorRange);
 	}
 
+	/**
+	 * Highlight a word in reading mode. The word is located exactly within
+	 * its rendered section when possible, and by sequential search of the
+	 * whole container otherwise.
+	 */
+	private applyReadingHighlight(
+		container: HTMLElement,
+		editorRange: EditorRange,
+		word: PlainRange,
+		wordText: string,
+		sentence: PlainRange | null,
+		substitution: PlainRange | null
+	): void {
+		const section = this.sectionTextAt(editorRange.from);
+
+		if (sentence !== this.currentSentence) {
+			this.currentSentence = sentence;
+			if (sentence && this.prepared) {
+				if (!section || !this.readingHighlighter.highlightSentenceInSection(section, sentence)) {
+					const sentenceText = this.prepared.text.substring(sentence.from, sentence.to);
+					this.readingHighlighter.highlightSentence(container, sentenceText);
+				}
+			} else {
+				this.readingHighlighter.clearSentence();
+			}
+		}
+
+		// Later words of the same substitution keep the existing highlight
+		if (!substitution || substitution !== this.currentSubstitution) {
+			const located = section !== null && this.highlightInSection(section, word, wordText, substitution);
+			if (!located && substitution && this.isFormula(substitution)) {
+				this.readingHighlighter.highlightMath(container);
+			} else if (!located) {
+				this.readingHighlighter.highlightWord(container, wordText);
+			}
+		}
+		this.currentSubstitution = substitution;
+
+		if (this.settings?.autoScroll) {
+			this.scrollReadingView(container, editorRange.from);
+		}
+	}
+
+	/** Highlight a word within its rendered section; false if it couldn't be located */
+	private highlightInSection(
+		section: SectionText,
+		word: PlainRange,
+		wordText: string,
+		substitution: PlainRange | null
+	): boolean {
+		if (!substitution) {
+			// Words without rendered counterpart (substituted inside an embed)
+			if (wordText.length === 0) return true;
+			return this.readingHighlighter.highlightWordInSection(section, word);
+		}
+		if (this.isFormula(substitution) && this.prepared) {
+			const index = this.prepared.formulas.filter(
+				(f) => f.from >= section.range.from && f.from < substitution.from
+			).length;
+			return this.readingHighlighter.highlightMathInSection(section, index);
+		}
+		return this.readingHighlighter.highlightWordInSection(section, substitution, wordText);
+	}
+
+	/** The rendered section containing an editor offset, with its spoken text */
+	private sectionTextAt(editorOffset: number): SectionText | null {
+		const section = this.readingTarget?.sectionAt(editorOffset);
+		return section ? this.toSectionText(section) : null;
+	}
+
+	/** A section with its spoken text, cached until the sections or the prepared text change */
+	private toSectionText(section: ReadingSection): SectionText | null {
+		if (!this.prepared) return null;
+		if (this.sectionTextsFor !== this.prepared) {
+			this.sectionTexts = new WeakMap();
+			this.sectionTextsFor = this.prepared;
+		}
+		const cached = this.sectionTexts.get(section);
+		if (cached) return cached;
+
+		const { map, text, substitutions } = this.prepared;
+		const from = Math.min(this.preparer.toPlainOffset(map, section.from) ?? text.length, text.length);
+		const to = Math.min(this.preparer.toPlainOffset(map, section.to) ?? text.length, text.length);
+		const sectionText = { el: section.el, text, range: { from, to }, substituted: substitutions };
+		this.sectionTexts.set(section, sectionText);
+		return sectionText;
+	}
+
+	/**
+	 * Keep the highlighted word in view in reading mode. Words in sections
+	 * that aren't rendered yet are brought into view by their source line.
+	 */
+	private scrollReadingView(container: HTMLElement, editorOffset: number): void {
+		const scroller = container.closest<HTMLElement>(".markdown-preview-view") ?? container;
+		const rect = this.readingHighlighter.getWordRect();
+		if (!rect || (rect.width === 0 && rect.height === 0)) {
+			this.readingTarget?.scrollToOffset(editorOffset);
+			return;
+		}
+
+		const viewRect = scroller.getBoundingClientRect();
+		if (rect.top < viewRect.top + SCROLL_MARGIN_PX || rect.bottom > viewRect.bottom - SCROLL_MARGIN_PX) {
+			const center = viewRect.top + viewRect.height / 2;
+			scroller.scrollBy({ top: rect.top - center, behavior: "smooth" });
+		}
+	}
+
 	/**
 	 * Search for and highlight a word inside Live Preview widget elements
 	 * (tables, embeds, etc.) using the widgetHighlighter.
 	 */
-	private highlightInWidgets(word: string): void {
+	private highlightInWidgets(word: string, editorFrom: number): void {
 		if (!this.editorView) return;
 
+		// Words of an embedded note are searched in that embed only, so text
+		// in earlier widgets can't match first
+		const embedEl = this.findEmbedWidget(this.editorView, editorFrom);
+		if (embedEl) {
+			if (embedEl !== this.embedContainer) {
+				this.embedContainer = embedEl;
+				this.embedHighlighter.prepare(embedEl);
+			}
+			this.embedHighlighter.highlightWord(embedEl, word);
+			return;
+		}
+
 		// Collect all widget containers in the editor
 		const widgetEls = this.editorView.contentDOM.querySelectorAll(
 			".cm-embed-block, .cm-widget, .cm-table-widget"
@@ -276,15 +793,23 @@ export class PlaybackController {
 		);
 	}
 
-	private scrollToMark(container: HTMLElement): void {
-		const mark = container.querySelector("mark.tts-word-current");
-		if (mark instanceof HTMLElement) {
-			const rect = mark.getBoundingClientRect();
-			const containerRect = container.getBoundingClientRect();
-			if (rect.top < containerRect.top + SCROLL_MARGIN_PX || rect.bottom > containerRect.bottom - SCROLL_MARGIN_PX) {
-				mark.scrollIntoView({ block: "center", behavior: "smooth" });
+	private resetEmbedHighlighter(): void {
+		this.embedHighlighter.reset();
+		this.embedContainer = null;
+	}
+
+	/** The rendered embed widget on the line of `pos`, if any */
+	private findEmbedWidget(view: EditorView, pos: number): HTMLElement | null {
+		const line = view.state.doc.lineAt(pos).number;
+		const embeds = view.contentDOM.querySelectorAll<HTMLElement>(".cm-embed-block");
+		for (const el of Array.from(embeds)) {
+			try {
+				if (view.state.doc.lineAt(view.posAtDOM(el)).number === line) return el;
+			} catch (e) {
+				console.debug("TTS Highlight: could not locate embed widget", e);
 			}
 		}
+		return null;
 	}
 
 	private clearHighlight(): void {
@@ -294,12 +819,15 @@ export class PlaybackController {
 		}
 
 		this.widgetHighlighter.clear();
+		this.embedHighlighter.clear();
 		this.readingHighlighter.clear();
+		this.currentSentence = null;
+		this.currentSubstitution = null;
 
 		if (this.editorView) {
 			try {
 				this.editorView.dispatch({
-					effects: setTTSHighlight.of(null),
+					effects: [setTTSSpokenHighlight.of(null), setTTSSentenceHighlight.of(null), setTTSHighlight.of(null)],
 				});
 			} catch (e) {
 				console.debug("TTS Highlight: could not clear highlight, editor may be destroyed", e);
@@ -311,13 +839,15 @@ export class PlaybackController {
 		if (this.state !== "playing" || !this.prepared) return;
 
 		this.currentChunk++;
+		this.speakOffset = 0;
 		if (this.currentChunk < this.prepared.chunks.length) {
 			this.emitStateChange();
 			this.speakCurrentChunk();
 		} else {
+			this.recorder?.finish();
 			this.clearHighlight();
 			this.setState("idle");
-			this.onEnd?.();
+			this.onEnd?.(true);
 		}
 	}
 
@@ -332,10 +862,6 @@ export class PlaybackController {
 	}
 
 	private emitStateChange(): void {
-		this.onStateChange?.(
-			this.state,
-			this.currentChunk,
-			this.prepared?.chunks.length ?? 0
-		);
+		this.onStateChange?.(this.state, this.getProgress());
 	}
 }
@@ -0,0 +1,68 @@
+/** Speaking time per word at rate 1 assumed before any word was timed (150 words per minute) */
+const DEFAULT_SECONDS_PER_WORD = 0.4;
+/** Weight of each new word timing in the running average */
+const SPEED_SMOOTHING = 0.1;
+/** Gaps between words longer than this (chunk loading, long pauses in speech) are not timed */
+const MAX_WORD_GAP_SECONDS = 2;
+
+const WORD_RE = /\S+/g;
+
+/**
+ * Tracks progress through the plain text being read and estimates the time
+ * left from the measured gap between word boundaries. The speed is kept per
+ * rate 1, so a rate change rescales the estimate at once.
+ */
+export class ProgressEstimator {
+	private wordStarts: number[] = [];
+	private length = 0;
+	private secondsPerWord = DEFAULT_SECONDS_PER_WORD;
+	private lastWordAt: number | null = null;
+
+	/** Index the words of a new text; the measured speed is kept */
+	setText(text: string): void {
+		this.wordStarts = [];
+		this.length = text.length;
+		WORD_RE.lastIndex = 0;
+		let match: RegExpExecArray | null;
+		while ((match = WORD_RE.exec(text))) this.wordStarts.push(match.index);
+	}
+
+	/** Time the gap since the previous word boundary */
+	recordWord(rate: number): void {
+		const now = performance.now();
+		if (this.lastWordAt !== null) {
+			const gap = (now - this.lastWordAt) / 1000;
+			if (gap > 0 && gap < MAX_WORD_GAP_SECONDS) {
+				this.secondsPerWord += SPEED_SMOOTHING * (gap * rate - this.secondsPerWord);
+			}
+		}
+		this.lastWordAt = now;
+	}
+
+	/** Stop timing until the next word, e.g. after a pause or seek */
+	interrupt(): void {
+		this.lastWordAt = null;
+	}
+
+	/** Percentage of the text before `offset`, and the estimated seconds left from there */
+	estimate(offset: number, rate: number): { percent: number; remainingSeconds: number } {
+		if (this.length === 0) return { percent: 0, remainingSeconds: 0 };
+		const remainingWords = this.wordStarts.length - this.wordsBefore(offset);
+		return {
+			percent: Math.min(100, Math.max(0, (offset / this.length) * 100)),
+			remainingSeconds: (remainingWords * this.secondsPerWord) / (rate > 0 ? rate : 1),
+		};
+	}
+
+	/** Number of words starting before `offset` (binary search) */
+	private wordsBefore(offset: number): number {
+		let lo = 0;
+		let hi = this.wordStarts.length;
+		while (lo < hi) {
+			const mid = (lo + hi) >> 1;
+			if (this.wordStarts[mid] < offset) lo = mid + 1;
+			else hi = mid;
+		}
+		return lo;
+	}
+}
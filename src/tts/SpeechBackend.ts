@@ -0,0 +1,25 @@
+import type { TTSSettings } from "../types";
+
+export type BoundaryCallback = (charIndex: number, charLength: number) => void;
+export type EndCallback = () => void;
+export type ErrorCallback = (error: string) => void;
+
+/**
+ * A speech synthesis backend. The PlaybackController speaks one chunk at a
+ * time through this interface and relies on chunk-local word boundaries to
+ * drive highlighting.
+ */
+export interface SpeechBackend {
+	setBoundaryCallback(cb: BoundaryCallback): void;
+	setEndCallback(cb: EndCallback): void;
+	setErrorCallback(cb: ErrorCallback): void;
+	/**
+	 * Speak a chunk of plain text, cancelling anything currently playing.
+	 * `language` is the chunk's language tag, or "" when unknown.
+	 */
+	speak(text: string, settings: TTSSettings, language?: string): void;
+	pause(): void;
+	resume(): void;
+	/** Stop speaking without firing the end callback */
+	cancel(): void;
+}
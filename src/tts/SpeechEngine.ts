@@ -1,13 +1,17 @@
 import type { TTSSettings } from "../types";
+import type { SpeechBackend, BoundaryCallback, EndCallback, ErrorCallback } from "./SpeechBackend";
+import { BoundaryEstimator, type EstimatedWord } from "./BoundaryEstimator";
+import { primaryLanguage } from "./LanguageDetector";
 
 /** Timeout for waiting for voices to load via onvoiceschanged event */
 const VOICE_LOAD_TIMEOUT_MS = 3000;
+/** How long a chunk may play without a boundary event before word timing is estimated */
+const BOUNDARY_WAIT_MS = 600;
+/** Interval for checking which estimated word boundaries are due */
+const ESTIMATE_POLL_MS = 30;
 
-export type BoundaryCallback = (charIndex: number, charLength: number) => void;
-export type EndCallback = () => void;
-export type ErrorCallback = (error: string) => void;
-
-export class SpeechEngine {
+/** Speech backend built on the browser Web Speech API (system voices) */
+export class SpeechEngine implements SpeechBackend {
 	private utterance: SpeechSynthesisUtterance | null = null;
 	private currentText = "";
 	private onBoundary: BoundaryCallback | null = null;
@@ -15,10 +19,34 @@ export class SpeechEngine {
 	private onError: ErrorCallback | null = null;
 	private cancelled = false;
 	private endFired = false;
+	private estimator = new BoundaryEstimator();
+	/** Voices (by URI, "" for the default) known to speak without boundary events */
+	private voicesWithoutBoundaries = new Set<string>();
+	private voiceKey = "";
+	private boundarySeen = false;
+	private estimating = false;
+	private startedAt = 0;
+	private pausedAt: number | null = null;
+	private pausedTotal = 0;
+	private pollTimer: number | null = null;
+
+	/** Whether the Web Speech API is available; some Android WebViews lack it */
+	static isSupported(): boolean {
+		return "speechSynthesis" in window;
+	}
+
+	/** The system voices, or none without the Web Speech API */
+	static getVoices(): SpeechSynthesisVoice[] {
+		return SpeechEngine.isSupported() ? window.speechSynthesis.getVoices() : [];
+	}
 
 	/** Load voices, returning a promise that resolves once voices are available. */
 	static loadVoices(): Promise<SpeechSynthesisVoice[]> {
 		return new Promise((resolve) => {
+			if (!SpeechEngine.isSupported()) {
+				resolve([]);
+				return;
+			}
 			const voices = window.speechSynthesis.getVoices();
 			if (voices.length > 0) {
 				resolve(voices);
@@ -49,7 +77,7 @@ export class SpeechEngine {
 		this.onError = cb;
 	}
 
-	speak(text: string, settings: TTSSettings): void {
+	speak(text: string, settings: TTSSettings, language = ""): void {
 		this.cancel();
 		this.currentText = text;
 		this.cancelled = false;
@@ -63,14 +91,22 @@ export class SpeechEngine {
 		utterance.pitch = settings.pitch;
 		utterance.volume = settings.volume;
 
-		if (settings.voice) {
-			const voices = window.speechSynthesis.getVoices();
-			const match = voices.find((v) => v.voiceURI === settings.voice);
-			if (match) utterance.voice = match;
-		}
+		const voice = this.pickVoice(settings, language);
+		if (voice) utterance.voice = voice;
+		if (language) utterance.lang = language;
+		this.voiceKey = utterance.voice?.voiceURI ?? "";
+		this.startTiming(text, settings.rate);
+
+		// Events of an utterance cancelled by a seek or voice change may still
+		// arrive after its replacement started; every handler ignores them
+		utterance.onstart = () => {
+			// Speech may start well after speak(); estimated timing counts from here
+			if (utterance === this.utterance) this.restartClock();
+		};
 
 		utterance.onboundary = (event: SpeechSynthesisEvent) => {
-			if (event.name !== "word") return;
+			if (utterance !== this.utterance || event.name !== "word") return;
+			this.handleRealBoundary();
 			let length = event.charLength;
 			// Safari quirk: charLength may be 0 or undefined
 			if (!length || length === 0) {
@@ -80,30 +116,44 @@ export class SpeechEngine {
 		};
 
 		utterance.onend = () => {
-			if (this.endFired) return;
+			if (utterance !== this.utterance || this.endFired) return;
 			this.endFired = true;
+			this.finishTiming();
 			this.onEnd?.();
 		};
 
 		utterance.onerror = (event: SpeechSynthesisErrorEvent) => {
 			// "interrupted" and "canceled" are expected when we call cancel()
-			if (event.error === "interrupted" || event.error === "canceled") return;
+			if (utterance !== this.utterance || event.error === "interrupted" || event.error === "canceled") return;
 			this.onError?.(event.error);
 		};
 
 		window.speechSynthesis.speak(utterance);
+		// cancel() keeps the synthesizer paused if it was paused (e.g. a seek while paused)
+		if (window.speechSynthesis.paused) {
+			window.speechSynthesis.resume();
+		}
 	}
 
 	pause(): void {
 		window.speechSynthesis.pause();
+		if (this.pausedAt === null) this.pausedAt = performance.now();
+		this.stopPolling();
 	}
 
 	resume(): void {
 		window.speechSynthesis.resume();
+		if (this.pausedAt !== null) {
+			this.pausedTotal += performance.now() - this.pausedAt;
+			this.pausedAt = null;
+		}
+		if (this.utterance) this.startPolling();
 	}
 
 	cancel(): void {
 		this.cancelled = true;
+		this.stopPolling();
+		this.estimating = false;
 		window.speechSynthesis.cancel();
 		// Safari quirk: end event doesn't fire after cancel()
 		// Fire synthetic end after a short delay
@@ -122,6 +172,93 @@ export class SpeechEngine {
 		return window.speechSynthesis.paused;
 	}
 
+	/**
+	 * The voice for a chunk: the one set for its language, else the chosen
+	 * voice if it speaks that language, else any voice that does, else the
+	 * chosen voice.
+	 */
+	private pickVoice(settings: TTSSettings, language: string): SpeechSynthesisVoice | null {
+		const voices = window.speechSynthesis.getVoices();
+		const chosen = settings.voice ? voices.find((v) => v.voiceURI === settings.voice) ?? null : null;
+		if (!language) return chosen;
+
+		const primary = primaryLanguage(language);
+		const speaks = (v: SpeechSynthesisVoice) => primaryLanguage(v.lang) === primary;
+		const entry = settings.languageVoices.find((e) => e.voice && primaryLanguage(e.language) === primary);
+		const preferred = entry ? voices.find((v) => v.voiceURI === entry.voice) : undefined;
+		if (preferred) return preferred;
+		if (chosen && speaks(chosen)) return chosen;
+		return voices.find(speaks) ?? chosen;
+	}
+
+	/** Restart the chunk clock and the estimated word schedule */
+	private startTiming(text: string, rate: number): void {
+		this.estimator.begin(text, rate);
+		this.boundarySeen = false;
+		this.estimating = this.voicesWithoutBoundaries.has(this.voiceKey);
+		this.pausedAt = null;
+		this.restartClock();
+		this.startPolling();
+	}
+
+	/** Count the chunk from now, keeping a pause that is in effect */
+	private restartClock(): void {
+		this.startedAt = performance.now();
+		if (this.pausedAt !== null) this.pausedAt = this.startedAt;
+		this.pausedTotal = 0;
+	}
+
+	/** A real boundary event arrived: the voice reports its own word timing */
+	private handleRealBoundary(): void {
+		this.boundarySeen = true;
+		this.voicesWithoutBoundaries.delete(this.voiceKey);
+		this.estimating = false;
+		this.stopPolling();
+	}
+
+	/**
+	 * At the end of a chunk, emit the estimated words not reached yet and
+	 * correct the speaking speed from the measured duration.
+	 */
+	private finishTiming(): void {
+		this.stopPolling();
+		if (this.boundarySeen) return;
+		this.voicesWithoutBoundaries.add(this.voiceKey);
+		const rest = this.estimator.finish(this.elapsedSeconds());
+		if (this.estimating) this.emitEstimated(rest);
+		this.estimating = false;
+	}
+
+	private startPolling(): void {
+		this.stopPolling();
+		if (this.boundarySeen) return;
+		this.pollTimer = window.setInterval(() => this.pollEstimate(), ESTIMATE_POLL_MS);
+	}
+
+	private stopPolling(): void {
+		if (this.pollTimer !== null) {
+			window.clearInterval(this.pollTimer);
+			this.pollTimer = null;
+		}
+	}
+
+	/** Switch to estimated timing once the wait window passes, then emit the due words */
+	private pollEstimate(): void {
+		const elapsed = this.elapsedSeconds();
+		if (!this.estimating && elapsed * 1000 >= BOUNDARY_WAIT_MS) this.estimating = true;
+		if (this.estimating) this.emitEstimated(this.estimator.due(elapsed));
+	}
+
+	private emitEstimated(words: EstimatedWord[]): void {
+		for (const w of words) this.onBoundary?.(w.charIndex, w.charLength);
+	}
+
+	/** Seconds spoken in the current chunk, not counting time spent paused */
+	private elapsedSeconds(): number {
+		const now = this.pausedAt ?? performance.now();
+		return (now - this.startedAt - this.pausedTotal) / 1000;
+	}
+
 	/**
 	 * When charLength is missing (Safari), find the end of the current word
 	 * by scanning forward from charIndex for whitespace or end of text.
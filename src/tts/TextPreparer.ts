@@ -1,9 +1,51 @@
-import type { PositionMapEntry, PreparedText } from "../types";
+import { MathVerbalizer } from "./MathVerbalizer";
+import { LanguageDetector } from "./LanguageDetector";
+import type {
+	LanguageRange,
+	PositionMapEntry,
+	PreparedText,
+	PlainRange,
+	PrepareOptions,
+	PronunciationEntry,
+} from "../types";
 
 /** Minimum fraction of chunk used before accepting a sentence-boundary split */
 const MIN_SENTENCE_SPLIT_RATIO = 0.5;
 /** Minimum fraction of chunk used before accepting a word-boundary split */
 const MIN_WORD_SPLIT_RATIO = 0.3;
+/** Characters that end a sentence when followed by whitespace */
+const SENTENCE_END_CHARS = ".!?";
+/** Closing quotes/brackets allowed between sentence punctuation and whitespace */
+const SENTENCE_CLOSER_CHARS = "\"')]\u201D\u2019";
+/** Source lines that start a new paragraph: blank lines, headings, list items and fences */
+const PARAGRAPH_START_RE = /^[ \t]*(#{1,6} |[-*+] |\d+\. |```|~~~|$)/;
+/** Heading lines, which are paragraphs of their own */
+const HEADING_LINE_RE = /^[ \t]*#{1,6} /;
+/** Callout header after the quote markers: [!type], optional fold marker, title */
+const CALLOUT_HEADER_RE = /^\[!([^\]\s]+)\]([+-]?)[ \t]*/;
+/** Footnote definition prefix: [^id]: */
+const FOOTNOTE_DEF_RE = /^\[\^[^\]\s]+\]:[ \t]*/;
+/** HTML tag: closing slash, name, attributes and self-closing slash */
+const HTML_TAG_RE = /^(\/?)([a-zA-Z][a-zA-Z0-9]*)(\s[^>]*)?(\/?)$/;
+/** A lang="…" attribute inside an HTML tag */
+const LANG_ATTRIBUTE_RE = /\slang\s*=\s*["']?([A-Za-z]{2,3}(?:[-_][A-Za-z0-9]+)*)/;
+/** HTML elements that never have a closing tag */
+const VOID_ELEMENTS = ["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr"];
+
+/** A pronunciation entry compiled to a sticky regex matched at word starts */
+interface CompiledPronunciation {
+	regex: RegExp;
+	replacement: string;
+}
+
+/** An HTML element open at the current position, tracked to find where lang attributes end */
+interface OpenTag {
+	name: string;
+	/** The element's lang attribute, if it has one */
+	language: string | null;
+	/** Plain-text offset where the element's content starts */
+	from: number;
+}
 
 /** Mutable parsing context threaded through helper methods */
 interface StripContext {
@@ -12,9 +54,24 @@ interface StripContext {
 	editorOffset: number;
 	out: string[];
 	map: PositionMapEntry[];
+	/** Plain-text offsets of source line breaks (always sentence breaks) */
+	breaks: number[];
+	/** Plain-text offsets where a new paragraph starts */
+	paragraphBreaks: number[];
 	i: number;
 	plainIndex: number;
 	lineStart: boolean;
+	options: PrepareOptions;
+	pronunciations: CompiledPronunciation[];
+	/** Plain ranges of spoken text substituted for source text */
+	substitutions: PlainRange[];
+	/** Plain ranges of verbalized math formulas */
+	formulas: PlainRange[];
+	/** Plain ranges read from embedded notes */
+	embeds: PlainRange[];
+	openTags: OpenTag[];
+	/** Plain ranges inside elements with a lang attribute */
+	languageHints: LanguageRange[];
 }
 
 /**
@@ -23,21 +80,110 @@ interface StripContext {
  * output and the original editor text.
  */
 export class TextPreparer {
+	private mathVerbalizer = new MathVerbalizer();
+	private languageDetector = new LanguageDetector();
+
 	/**
 	 * Prepare text for TTS.
 	 * @param raw The raw markdown text from the editor
 	 * @param chunkSize Max characters per speech chunk
 	 * @param editorOffset Starting editor offset (for selections)
+	 * @param options Pronunciations and other spoken-text options
 	 */
-	prepare(raw: string, chunkSize: number, editorOffset = 0): PreparedText {
-		const { plainText, map } = this.stripMarkdown(raw, editorOffset);
+	prepare(raw: string, chunkSize: number, editorOffset = 0, options: PrepareOptions = {}): PreparedText {
+		const { plainText, map, breaks, paragraphBreaks, substitutions, formulas, embeds, languageHints } =
+			this.stripMarkdown(raw, editorOffset, options);
 
 		if (plainText.trim().length === 0) {
-			return { chunks: [], map: [], chunkOffsets: [] };
+			return {
+				text: "",
+				chunks: [],
+				map: [],
+				chunkOffsets: [],
+				sentences: [],
+				paragraphs: [],
+				substitutions: [],
+				formulas: [],
+				embeds: [],
+				languages: [],
+			};
 		}
 
-		const { chunks, chunkOffsets } = this.splitChunks(plainText, chunkSize);
-		return { chunks, map, chunkOffsets };
+		const sentences = this.splitSentences(plainText, breaks);
+		const paragraphs = this.splitParagraphs(plainText, paragraphBreaks);
+		const languages = options.detectLanguage
+			? this.languageDetector.detect(plainText, sentences, paragraphs, languageHints, options.defaultLanguage ?? "")
+			: [];
+		const { chunks, chunkOffsets } = this.splitChunks(plainText, chunkSize, languages);
+		return {
+			text: plainText,
+			chunks,
+			map,
+			chunkOffsets,
+			sentences,
+			paragraphs,
+			substitutions,
+			formulas,
+			embeds,
+			languages,
+		};
+	}
+
+	/**
+	 * Replace everything from plain offset `at` with `rest`, the text after
+	 * an edit prepared on its own. Ranges crossing `at` are cut there and the
+	 * combined text is chunked again.
+	 */
+	splice(prepared: PreparedText, at: number, rest: PreparedText, chunkSize: number): PreparedText {
+		const text = prepared.text.substring(0, at) + rest.text;
+		const keep = (ranges: PlainRange[]): PlainRange[] => {
+			const kept: PlainRange[] = [];
+			for (const range of ranges) {
+				if (range.from < at) this.pushRange(kept, text, range.from, Math.min(range.to, at));
+			}
+			return kept;
+		};
+		const shift = (ranges: PlainRange[]): PlainRange[] => ranges.map((r) => ({ from: r.from + at, to: r.to + at }));
+		// Language ranges are contiguous, so they are cut without trimming whitespace
+		const languages = prepared.languages
+			.filter((r) => r.from < at)
+			.map((r) => ({ ...r, to: Math.min(r.to, at) }))
+			.concat(rest.languages.map((r) => ({ ...r, from: r.from + at, to: r.to + at })));
+
+		const { chunks, chunkOffsets } = this.splitChunks(text, chunkSize, languages);
+		return {
+			text,
+			chunks,
+			chunkOffsets,
+			map: prepared.map
+				.filter((e) => e.plain < at)
+				.concat(rest.map.map((e) => ({ plain: e.plain + at, editor: e.editor }))),
+			sentences: keep(prepared.sentences).concat(shift(rest.sentences)),
+			paragraphs: keep(prepared.paragraphs).concat(shift(rest.paragraphs)),
+			substitutions: keep(prepared.substitutions).concat(shift(rest.substitutions)),
+			formulas: keep(prepared.formulas).concat(shift(rest.formulas)),
+			embeds: keep(prepared.embeds).concat(shift(rest.embeds)),
+			languages,
+		};
+	}
+
+	/**
+	 * Find the index of the range (sentence or paragraph) containing a
+	 * plain-text offset. Offsets in the whitespace between ranges resolve to
+	 * the next range; offsets past the last range return ranges.length.
+	 */
+	findRangeIndex(ranges: PlainRange[], plainIndex: number): number {
+		let lo = 0;
+		let hi = ranges.length - 1;
+		while (lo <= hi) {
+			const mid = (lo + hi) >> 1;
+			if (ranges[mid].to <= plainIndex) {
+				lo = mid + 1;
+			} else {
+				hi = mid - 1;
+			}
+		}
+		return lo;
 	}
 
 	/**
@@ -56,6 +202,28 @@ export class TextPreparer {
 		return { from, to: to + 1 };
 	}
 
+	/**
+	 * Convert an editor offset to plain-text coordinates. Offsets inside
+	 * stripped markup snap forward to the next spoken character.
+	 */
+	toPlainOffset(map: PositionMapEntry[], editorOffset: number): number | null {
+		let next: PositionMapEntry | null = null;
+
+		for (let i = 0; i < map.length; i++) {
+			const entry = map[i];
+			// Each entry starts a run of characters contiguous in both coordinate spaces
+			const runLength = i + 1 < map.length ? map[i + 1].plain - entry.plain : Infinity;
+			if (editorOffset >= entry.editor && editorOffset < entry.editor + runLength) {
+				return entry.plain + (editorOffset - entry.editor);
+			}
+			if (entry.editor > editorOffset && (next === null || entry.editor < next.editor)) {
+				next = entry;
+			}
+		}
+
+		return next ? next.plain : null;
+	}
+
 	private lookupEditorOffset(
 		map: PositionMapEntry[],
 		plainIndex: number
@@ -88,17 +256,36 @@ export class TextPreparer {
 
 	private stripMarkdown(
 		raw: string,
-		editorOffset: number
-	): { plainText: string; map: PositionMapEntry[] } {
+		editorOffset: number,
+		options: PrepareOptions
+	): {
+		plainText: string;
+		map: PositionMapEntry[];
+		breaks: number[];
+		paragraphBreaks: number[];
+		substitutions: PlainRange[];
+		formulas: PlainRange[];
+		embeds: PlainRange[];
+		languageHints: LanguageRange[];
+	} {
 		const ctx: StripContext = {
 			raw,
 			len: raw.length,
 			editorOffset,
 			out: [],
 			map: [],
+			breaks: [],
+			paragraphBreaks: [],
 			i: 0,
 			plainIndex: 0,
 			lineStart: true,
+			options,
+			pronunciations: this.compilePronunciations(options.pronunciations ?? []),
+			substitutions: [],
+			formulas: [],
+			embeds: [],
+			openTags: [],
+			languageHints: [],
 		};
 
 		// Skip frontmatter opening
@@ -115,11 +302,13 @@ export class TextPreparer {
 			// Line-start block-level syntax
 			if (ctx.lineStart) {
 				ctx.lineStart = false;
+				if (this.isParagraphStart(ctx)) ctx.paragraphBreaks.push(ctx.plainIndex);
 				if (this.tryLineStart(ctx, ch)) continue;
 			}
 
 			// Newlines
 			if (ch === "\n") {
+				ctx.breaks.push(ctx.plainIndex);
 				this.pushChar(ctx, " ");
 				ctx.i++;
 				ctx.lineStart = true;
@@ -138,8 +327,20 @@ export class TextPreparer {
 			ctx.i++;
 		}
 
-		let plainText = ctx.out.join("").trim();
-		return { plainText, map: ctx.map };
+		// Only trim the end: leading whitespace must stay so plain offsets match the map
+		const plainText = ctx.out.join("").replace(/\s+$/, "");
+		// Unclosed elements run to the end of the text
+		while (ctx.openTags.length > 0) this.closeTag(ctx, ctx.openTags.length - 1);
+		return {
+			plainText,
+			map: ctx.map,
+			breaks: ctx.breaks,
+			paragraphBreaks: ctx.paragraphBreaks,
+			substitutions: ctx.substitutions,
+			formulas: ctx.formulas,
+			embeds: ctx.embeds,
+			languageHints: ctx.languageHints,
+		};
 	}
 
 	// ── Frontmatter ────────────────────────────────────────────────────
@@ -169,6 +370,8 @@ export class TextPreparer {
 	private tryLineStart(ctx: StripContext, ch: string): boolean {
 		return (
 			this.tryTableSeparator(ctx, ch) ||
+			this.tryTableRow(ctx, ch) ||
+			this.tryFootnoteDefinition(ctx, ch) ||
 			this.tryCodeFence(ctx, ch) ||
 			this.tryHeading(ctx, ch) ||
 			this.tryBlockquote(ctx, ch) ||
@@ -178,6 +381,18 @@ export class TextPreparer {
 		);
 	}
 
+	/** Whether the line at the current position starts a new paragraph */
+	private isParagraphStart(ctx: StripContext): boolean {
+		const nlIdx = ctx.raw.indexOf("\n", ctx.i);
+		const line = ctx.raw.substring(ctx.i, nlIdx === -1 ? ctx.len : nlIdx).replace(/\r$/, "");
+		if (PARAGRAPH_START_RE.test(line)) return true;
+
+		// The line after a heading starts a new paragraph too
+		if (ctx.i === 0) return false;
+		const prevStart = ctx.raw.lastIndexOf("\n", ctx.i - 2) + 1;
+		return HEADING_LINE_RE.test(ctx.raw.substring(prevStart, ctx.i - 1));
+	}
+
 	/** Skip table separator rows like | --- | --- | */
 	private tryTableSeparator(ctx: StripContext, ch: string): boolean {
 		if (ch !== "|") return false;
@@ -194,7 +409,30 @@ export class TextPreparer {
 		return false;
 	}
 
-	/** Skip fenced code blocks (``` or ~~~) */
+	/** Skip whole table rows when tables are not read */
+	private tryTableRow(ctx: StripContext, ch: string): boolean {
+		if (ch !== "|" || ctx.options.readTables !== false) return false;
+		this.skipLine(ctx);
+		return true;
+	}
+
+	/** Strip footnote definition prefixes ([^1]: ), or skip the definition */
+	private tryFootnoteDefinition(ctx: StripContext, ch: string): boolean {
+		if (ch !== "[" || ctx.raw[ctx.i + 1] !== "^") return false;
+
+		const nlIdx = ctx.raw.indexOf("\n", ctx.i);
+		const match = FOOTNOTE_DEF_RE.exec(ctx.raw.substring(ctx.i, nlIdx === -1 ? ctx.len : nlIdx));
+		if (!match) return false;
+
+		if (ctx.options.readFootnotes === false) {
+			this.skipLine(ctx);
+		} else {
+			ctx.i += match[0].length;
+		}
+		return true;
+	}
+
+	/** Skip fenced code blocks (``` or ~~~), or read their content */
 	private tryCodeFence(ctx: StripContext, ch: string): boolean {
 		const { raw, len } = ctx;
 		if (
@@ -212,9 +450,12 @@ export class TextPreparer {
 			return true;
 		}
 		ctx.i = nlIdx + 1;
+		const contentStart = ctx.i;
+		let contentEnd = len;
 
 		// Skip until closing fence
 		while (ctx.i < len) {
+			const lineStart = ctx.i;
 			const fenceNl = raw.indexOf("\n", ctx.i);
 			const fenceEnd = fenceNl === -1 ? len : fenceNl;
 			const fenceLine = raw.substring(ctx.i, fenceEnd).trimStart();
@@ -225,34 +466,105 @@ export class TextPreparer {
 				fenceLine[1] === fence &&
 				fenceLine[2] === fence
 			) {
+				contentEnd = lineStart;
 				break;
 			}
 		}
+
+		if (ctx.options.readCodeBlocks) {
+			this.pushSource(ctx, contentStart, contentEnd);
+		}
 		ctx.lineStart = true;
 		return true;
 	}
 
-	/** Strip heading prefix (# ## ### etc.) */
+	/** Strip heading prefix (# ## ### etc.), or skip the heading */
 	private tryHeading(ctx: StripContext, ch: string): boolean {
 		if (ch !== "#") return false;
 
 		let hi = ctx.i;
 		while (hi < ctx.len && ctx.raw[hi] === "#") hi++;
 		if (hi < ctx.len && ctx.raw[hi] === " ") {
-			ctx.i = hi + 1;
+			if (ctx.options.readHeadings === false) {
+				this.skipLine(ctx);
+			} else {
+				ctx.i = hi + 1;
+			}
 			return true;
 		}
 		return false;
 	}
 
-	/** Strip blockquote prefix (>) */
+	/**
+	 * Strip blockquote prefixes (`>`, nested `> >`) and handle callout
+	 * headers. The rest of the line is parsed as a new line start, so
+	 * headings and lists inside quotes are stripped too.
+	 */
 	private tryBlockquote(ctx: StripContext, ch: string): boolean {
 		if (ch !== ">") return false;
-		ctx.i++;
-		if (ctx.i < ctx.len && ctx.raw[ctx.i] === " ") ctx.i++;
+
+		const depth = this.skipQuoteMarkers(ctx);
+		if (!this.tryCalloutHeader(ctx, depth)) ctx.lineStart = true;
+		return true;
+	}
+
+	/** Consume all quote markers at the current position; returns the nesting depth */
+	private skipQuoteMarkers(ctx: StripContext): number {
+		let depth = 0;
+		while (ctx.i < ctx.len && ctx.raw[ctx.i] === ">") {
+			depth++;
+			ctx.i++;
+			while (ctx.i < ctx.len && (ctx.raw[ctx.i] === " " || ctx.raw[ctx.i] === "\t")) ctx.i++;
+		}
+		return depth;
+	}
+
+	/**
+	 * Handle a callout header (`[!warning]+ Title`) after the quote markers.
+	 * The type is announced ("Warning: Title") or dropped, and collapsed
+	 * callouts are skipped entirely unless enabled.
+	 * Returns true if a header was consumed.
+	 */
+	private tryCalloutHeader(ctx: StripContext, depth: number): boolean {
+		const nlIdx = ctx.raw.indexOf("\n", ctx.i);
+		const lineEnd = nlIdx === -1 ? ctx.len : nlIdx;
+		const match = CALLOUT_HEADER_RE.exec(ctx.raw.substring(ctx.i, lineEnd));
+		if (!match) return false;
+
+		if (match[2] === "-" && ctx.options.readCollapsedCallouts === false) {
+			this.skipQuoteBlock(ctx, depth);
+			return true;
+		}
+
+		if (ctx.options.announceCallouts !== false) {
+			const type = match[1].replace(/[-_]/g, " ");
+			const label = type.charAt(0).toUpperCase() + type.substring(1).toLowerCase();
+			const hasTitle = match[0].length < lineEnd - ctx.i;
+			this.pushSpread(ctx, hasTitle ? `${label}: ` : `${label}.`, ctx.i, match[1].length + 3);
+		}
+		ctx.i += match[0].length;
 		return true;
 	}
 
+	/** Skip the current line and every following line quoted at least `depth` deep */
+	private skipQuoteBlock(ctx: StripContext, depth: number): void {
+		const { raw, len } = ctx;
+		let nlIdx = raw.indexOf("\n", ctx.i);
+		while (nlIdx !== -1) {
+			let qi = nlIdx + 1;
+			let lineDepth = 0;
+			while (qi < len && raw[qi] === ">") {
+				lineDepth++;
+				qi++;
+				while (qi < len && (raw[qi] === " " || raw[qi] === "\t")) qi++;
+			}
+			if (lineDepth < depth) break;
+			nlIdx = raw.indexOf("\n", nlIdx + 1);
+		}
+		ctx.i = nlIdx === -1 ? len : nlIdx + 1;
+		ctx.lineStart = true;
+	}
+
 	/** Strip unordered list prefix (- , * , +) */
 	private tryUnorderedList(ctx: StripContext, ch: string): boolean {
 		if (
@@ -310,7 +622,13 @@ export class TextPreparer {
 	 */
 	private tryInline(ctx: StripContext, ch: string): boolean {
 		return (
+			this.tryPronunciation(ctx) ||
+			this.tryComment(ctx, ch) ||
+			this.tryHtmlComment(ctx, ch) ||
+			this.tryMath(ctx, ch) ||
+			this.tryFootnote(ctx, ch) ||
 			this.tryInlineCode(ctx, ch) ||
+			this.tryEmbed(ctx, ch) ||
 			this.tryImage(ctx, ch) ||
 			this.tryWikilink(ctx, ch) ||
 			this.tryLink(ctx, ch) ||
@@ -322,13 +640,116 @@ export class TextPreparer {
 		);
 	}
 
-	/** Strip backticks, keep code content */
+	/** Replace a dictionary match at the start of a word with its spoken form */
+	private tryPronunciation(ctx: StripContext): boolean {
+		const match = this.matchPronunciation(ctx, ctx.i, ctx.len);
+		if (!match) return false;
+		this.pushSubstitution(ctx, match.spoken, ctx.i, match.length);
+		ctx.i += match.length;
+		return true;
+	}
+
+	/** The spoken form of a dictionary match starting a word at `index` and ending by `end` */
+	private matchPronunciation(ctx: StripContext, index: number, end: number): { spoken: string; length: number } | null {
+		if (ctx.pronunciations.length === 0) return null;
+		if (index > 0 && /\w/.test(ctx.raw[index - 1])) return null;
+
+		for (const entry of ctx.pronunciations) {
+			entry.regex.lastIndex = index;
+			const match = entry.regex.exec(ctx.raw);
+			if (!match || match[0].length === 0 || index + match[0].length > end) continue;
+
+			const spoken = entry.replacement.replace(/\$(\d)/g, (_, n: string) => match[Number(n)] ?? "");
+			return { spoken, length: match[0].length };
+		}
+		return null;
+	}
+
+	/**
+	 * Push link display text from `from` to `to`, replacing dictionary
+	 * matches like in plain text so the link text stays highlighted
+	 */
+	private pushDisplayText(ctx: StripContext, from: number, to: number): void {
+		let i = from;
+		while (i < to) {
+			const match = this.matchPronunciation(ctx, i, to);
+			if (match) {
+				this.pushSubstitution(ctx, match.spoken, i, match.length);
+				i += match.length;
+			} else {
+				this.pushCharAt(ctx, ctx.raw[i], i);
+				i++;
+			}
+		}
+	}
+
+	/** Obsidian %%comments%%, possibly spanning lines; unclosed ones run to the end */
+	private tryComment(ctx: StripContext, ch: string): boolean {
+		if (ch !== "%" || ctx.raw[ctx.i + 1] !== "%") return false;
+		return this.consumeDelimited(ctx, "%%", "%%", ctx.options.readComments === true, true);
+	}
+
+	/** HTML <!-- comments -->, possibly spanning lines */
+	private tryHtmlComment(ctx: StripContext, ch: string): boolean {
+		if (ch !== "<" || !ctx.raw.startsWith("<!--", ctx.i)) return false;
+		return this.consumeDelimited(ctx, "<!--", "-->", ctx.options.readHtmlComments === true, false);
+	}
+
+	/** $inline$ and $$block$$ math: speak it as words over the whole formula, or skip it */
+	private tryMath(ctx: StripContext, ch: string): boolean {
+		if (ch !== "$") return false;
+
+		const isBlock = ctx.raw[ctx.i + 1] === "$";
+		const delimiter = isBlock ? 2 : 1;
+		const close = isBlock ? ctx.raw.indexOf("$$", ctx.i + 2) : this.findInlineMathEnd(ctx.raw, ctx.i);
+		if (close === -1) return false;
+
+		const end = close + delimiter;
+		if (ctx.options.readMath !== false) {
+			const spoken = this.mathVerbalizer.verbalize(ctx.raw.substring(ctx.i + delimiter, close));
+			const plainStart = ctx.plainIndex;
+			this.pushSubstitution(ctx, spoken, ctx.i, end - ctx.i);
+			if (ctx.plainIndex > plainStart) {
+				ctx.formulas.push({ from: plainStart, to: ctx.plainIndex });
+			}
+		}
+		ctx.i = end;
+		return true;
+	}
+
+	/** Footnote references [^1] are dropped; inline footnotes ^[text] are read or skipped */
+	private tryFootnote(ctx: StripContext, ch: string): boolean {
+		if (ch === "[" && ctx.raw[ctx.i + 1] === "^") {
+			const close = ctx.raw.indexOf("]", ctx.i + 2);
+			if (close === -1 || /\s/.test(ctx.raw.substring(ctx.i + 2, close))) return false;
+			ctx.i = close + 1;
+			return true;
+		}
+
+		if (ch === "^" && ctx.raw[ctx.i + 1] === "[") {
+			const close = this.findClosingBracket(ctx.raw, ctx.i + 1);
+			if (close === -1) return false;
+			if (ctx.options.readFootnotes !== false) {
+				this.pushSource(ctx, ctx.i + 2, close);
+			}
+			ctx.i = close + 1;
+			return true;
+		}
+		return false;
+	}
+
+	/** Strip backticks, keep code content (or skip it when inline code is not read) */
 	private tryInlineCode(ctx: StripContext, ch: string): boolean {
 		if (ch !== "`") return false;
 
 		const end = ctx.raw.indexOf("`", ctx.i + 1);
 		if (end === -1) return false;
 
+		if (ctx.options.readInlineCode === false) {
+			ctx.i = end + 1;
+			return true;
+		}
+
 		ctx.i++;
 		while (ctx.i < end) {
 			this.pushChar(ctx, ctx.raw[ctx.i]);
@@ -348,9 +769,11 @@ export class TextPreparer {
 		const closeParen = ctx.raw.indexOf(")", closeBracket + 2);
 		if (closeParen === -1) return false;
 
-		const altStart = ctx.i + 2;
-		for (let ai = altStart; ai < closeBracket; ai++) {
-			this.pushCharAt(ctx, ctx.raw[ai], ai);
+		if (ctx.options.readImageAlt !== false) {
+			const altStart = ctx.i + 2;
+			for (let ai = altStart; ai < closeBracket; ai++) {
+				this.pushCharAt(ctx, ctx.raw[ai], ai);
+			}
 		}
 		ctx.i = closeParen + 1;
 		return true;
@@ -363,18 +786,47 @@ export class TextPreparer {
 		const closeWiki = ctx.raw.indexOf("]]", ctx.i + 2);
 		if (closeWiki === -1) return false;
 
-		const inner = ctx.raw.substring(ctx.i + 2, closeWiki);
-		const pipeIdx = inner.indexOf("|");
-		const display = pipeIdx !== -1 ? inner.substring(pipeIdx + 1) : inner;
+		const pipeIdx = ctx.raw.substring(ctx.i + 2, closeWiki).indexOf("|");
 		const displayStart = pipeIdx !== -1 ? ctx.i + 2 + pipeIdx + 1 : ctx.i + 2;
 
-		for (let di = 0; di < display.length; di++) {
-			this.pushCharAt(ctx, display[di], displayStart + di);
-		}
+		this.pushDisplayText(ctx, displayStart, closeWiki);
 		ctx.i = closeWiki + 2;
 		return true;
 	}
 
+	/**
+	 * Read a resolved note embed ![[target]] in place. The embedded text is
+	 * prepared on its own and spread over the whole link, like a substitution;
+	 * unresolved embeds fall through to the wikilink handling.
+	 */
+	private tryEmbed(ctx: StripContext, ch: string): boolean {
+		if (ch !== "!" || !ctx.options.embeds || !ctx.raw.startsWith("![[", ctx.i)) return false;
+
+		const close = ctx.raw.indexOf("]]", ctx.i + 3);
+		if (close === -1) return false;
+
+		const target = ctx.raw.substring(ctx.i + 3, close).split("|")[0].trim();
+		const embed = ctx.options.embeds[target];
+		if (!embed) return false;
+
+		const inner = this.stripMarkdown(embed.text, 0, { ...ctx.options, embeds: embed.embeds });
+		const plainStart = ctx.plainIndex;
+		// Breaks in trimmed trailing whitespace would land past the embed
+		const innerLength = inner.plainText.length;
+		for (const brk of inner.breaks) if (brk < innerLength) ctx.breaks.push(plainStart + brk);
+		for (const brk of inner.paragraphBreaks) if (brk < innerLength) ctx.paragraphBreaks.push(plainStart + brk);
+		for (const hint of inner.languageHints) {
+			ctx.languageHints.push({ ...hint, from: plainStart + hint.from, to: plainStart + Math.min(hint.to, innerLength) });
+		}
+
+		this.pushSpread(ctx, inner.plainText, ctx.i, close + 2 - ctx.i);
+		if (ctx.plainIndex > plainStart) {
+			ctx.embeds.push({ from: plainStart, to: ctx.plainIndex });
+		}
+		ctx.i = close + 2;
+		return true;
+	}
+
 	/** Handle [text](url) — keep link text, strip URL */
 	private tryLink(ctx: StripContext, ch: string): boolean {
 		if (ch !== "[") return false;
@@ -387,11 +839,7 @@ export class TextPreparer {
 		const closeParen = ctx.raw.indexOf(")", closeBracket + 2);
 		if (closeParen === -1) return false;
 
-		ctx.i++;
-		while (ctx.i < closeBracket) {
-			this.pushChar(ctx, ctx.raw[ctx.i]);
-			ctx.i++;
-		}
+		this.pushDisplayText(ctx, ctx.i + 1, closeBracket);
 		ctx.i = closeParen + 1;
 		return true;
 	}
@@ -441,19 +889,40 @@ export class TextPreparer {
 		return true;
 	}
 
-	/** Skip HTML tags like <div>, </span>, <br/> */
+	/**
+	 * Skip HTML tags like <div>, </span>, <br/>, keeping track of open
+	 * elements so the content of elements with a lang attribute is known.
+	 */
 	private tryHtmlTag(ctx: StripContext, ch: string): boolean {
 		if (ch !== "<") return false;
 
 		const closeAngle = ctx.raw.indexOf(">", ctx.i + 1);
 		if (closeAngle === -1) return false;
 
-		const tagContent = ctx.raw.substring(ctx.i + 1, closeAngle);
-		if (/^\/?[a-zA-Z][a-zA-Z0-9]*(\s[^>]*)?\/?$/.test(tagContent)) {
-			ctx.i = closeAngle + 1;
-			return true;
+		const match = HTML_TAG_RE.exec(ctx.raw.substring(ctx.i + 1, closeAngle));
+		if (!match) return false;
+		ctx.i = closeAngle + 1;
+
+		const [, closing, tagName, attributes, selfClosing] = match;
+		const name = tagName.toLowerCase();
+		if (closing) {
+			const open = ctx.openTags.map((t) => t.name).lastIndexOf(name);
+			if (open !== -1) this.closeTag(ctx, open);
+		} else if (!selfClosing && !VOID_ELEMENTS.includes(name)) {
+			const lang = attributes ? LANG_ATTRIBUTE_RE.exec(attributes) : null;
+			ctx.openTags.push({ name, language: lang ? lang[1] : null, from: ctx.plainIndex });
+		}
+		return true;
+	}
+
+	/** Close the open element at `index` and any left open inside it */
+	private closeTag(ctx: StripContext, index: number): void {
+		while (ctx.openTags.length > index) {
+			const tag = ctx.openTags.pop();
+			if (tag?.language && ctx.plainIndex > tag.from) {
+				ctx.languageHints.push({ from: tag.from, to: ctx.plainIndex, language: tag.language });
+			}
 		}
-		return false;
 	}
 
 	// ── Helpers ─────────────────────────────────────────────────────────
@@ -471,6 +940,79 @@ export class TextPreparer {
 		ctx.plainIndex++;
 	}
 
+	/**
+	 * Push raw source text [from, to) as spoken text. Line breaks become
+	 * spaces (and sentence breaks); carriage returns are dropped.
+	 */
+	private pushSource(ctx: StripContext, from: number, to: number): void {
+		for (let si = from; si < to; si++) {
+			const sc = ctx.raw[si];
+			if (sc === "\r") continue;
+			if (sc === "\n") {
+				ctx.breaks.push(ctx.plainIndex);
+				this.pushCharAt(ctx, " ", si);
+			} else {
+				this.pushCharAt(ctx, sc, si);
+			}
+		}
+	}
+
+	/**
+	 * Consume text between `open` at the current position and the next
+	 * `close`, either reading the content or skipping it.
+	 * @param unclosedToEnd Treat a missing `close` as running to the end of the text
+	 */
+	private consumeDelimited(
+		ctx: StripContext,
+		open: string,
+		close: string,
+		read: boolean,
+		unclosedToEnd: boolean
+	): boolean {
+		const contentStart = ctx.i + open.length;
+		let closeIdx = ctx.raw.indexOf(close, contentStart);
+		if (closeIdx === -1) {
+			if (!unclosedToEnd) return false;
+			closeIdx = ctx.len;
+		}
+
+		if (read) {
+			this.pushSource(ctx, contentStart, closeIdx);
+		}
+		ctx.i = Math.min(ctx.len, closeIdx + close.length);
+		return true;
+	}
+
+	/**
+	 * Find the closing $ of inline math opened at `open`, following
+	 * Obsidian's rules: no whitespace just inside either $, no digit right
+	 * after the closing $, and no line break inside. Returns -1 if none.
+	 */
+	private findInlineMathEnd(raw: string, open: number): number {
+		if (open + 1 >= raw.length || /\s/.test(raw[open + 1])) return -1;
+
+		for (let mi = open + 1; mi < raw.length; mi++) {
+			const mc = raw[mi];
+			if (mc === "\n") return -1;
+			if (mc === "\\") {
+				mi++;
+				continue;
+			}
+			if (mc === "$") {
+				if (/\s/.test(raw[mi - 1]) || /\d/.test(raw[mi + 1] ?? "")) return -1;
+				return mi;
+			}
+		}
+		return -1;
+	}
+
+	/** Skip the rest of the current line, including its line break */
+	private skipLine(ctx: StripContext): void {
+		const nlIdx = ctx.raw.indexOf("\n", ctx.i);
+		ctx.i = nlIdx === -1 ? ctx.len : nlIdx + 1;
+		ctx.lineStart = true;
+	}
+
 	/** Push a character with an explicit editor position (for content extracted out-of-order) */
 	private pushCharAt(ctx: StripContext, ch: string, editorIndex: number): void {
 		ctx.out.push(ch);
@@ -484,6 +1026,48 @@ export class TextPreparer {
 		ctx.plainIndex++;
 	}
 
+	/**
+	 * Push spoken text that stands in for `length` source characters at
+	 * `start`. The spoken text is spread over the source token in the position
+	 * map, so its first and last characters map to the token's first and last,
+	 * and the range is recorded as a substitution.
+	 */
+	private pushSubstitution(ctx: StripContext, spoken: string, start: number, length: number): void {
+		const plainStart = ctx.plainIndex;
+		this.pushSpread(ctx, spoken, start, length);
+		if (ctx.plainIndex > plainStart) {
+			ctx.substitutions.push({ from: plainStart, to: ctx.plainIndex });
+		}
+	}
+
+	/** Push spoken text spread evenly over `length` source characters at `start` */
+	private pushSpread(ctx: StripContext, spoken: string, start: number, length: number): void {
+		for (let r = 0; r < spoken.length; r++) {
+			const rel = spoken.length === 1 ? 0 : Math.round((r * (length - 1)) / (spoken.length - 1));
+			this.pushCharAt(ctx, spoken[r], start + rel);
+		}
+	}
+
+	/**
+	 * Compile dictionary entries to sticky regexes. Literal entries must end
+	 * at a word boundary; invalid regexes are skipped.
+	 */
+	private compilePronunciations(entries: PronunciationEntry[]): CompiledPronunciation[] {
+		const compiled: CompiledPronunciation[] = [];
+		for (const entry of entries) {
+			if (!entry.pattern) continue;
+			try {
+				const source = entry.regex
+					? entry.pattern
+					: entry.pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&") + (/\w$/.test(entry.pattern) ? "(?!\\w)" : "");
+				compiled.push({ regex: new RegExp(source, "y"), replacement: entry.replacement });
+			} catch (e) {
+				console.debug(`TTS Highlight: invalid pronunciation pattern "${entry.pattern}"`, e);
+			}
+		}
+		return compiled;
+	}
+
 	private findClosingBracket(text: string, openPos: number): number {
 		let depth = 0;
 		for (let i = openPos; i < text.length; i++) {
@@ -496,34 +1080,104 @@ export class TextPreparer {
 		return -1;
 	}
 
+	// ── Sentences and paragraphs ───────────────────────────────────────
+
+	/**
+	 * Split plain text into sentences at terminal punctuation followed by
+	 * whitespace, and at every source line break (headings, list items and
+	 * paragraphs rarely end with punctuation).
+	 */
+	private splitSentences(text: string, breaks: number[]): PlainRange[] {
+		const sentences: PlainRange[] = [];
+		const breakSet = new Set(breaks);
+		let start = 0;
+
+		for (let i = 0; i < text.length; i++) {
+			if (breakSet.has(i)) {
+				this.pushRange(sentences, text, start, i);
+				start = i + 1;
+				continue;
+			}
+			if (!SENTENCE_END_CHARS.includes(text[i])) continue;
+
+			let end = i + 1;
+			while (end < text.length && SENTENCE_CLOSER_CHARS.includes(text[end])) end++;
+			if (end >= text.length || /\s/.test(text[end])) {
+				this.pushRange(sentences, text, start, end);
+				start = end;
+				i = end - 1;
+			}
+		}
+		this.pushRange(sentences, text, start, text.length);
+
+		return sentences;
+	}
+
+	/** Split plain text into paragraphs at the recorded paragraph starts */
+	private splitParagraphs(text: string, paragraphBreaks: number[]): PlainRange[] {
+		const paragraphs: PlainRange[] = [];
+		let start = 0;
+		for (const brk of paragraphBreaks) {
+			this.pushRange(paragraphs, text, start, Math.min(brk, text.length));
+			start = Math.max(start, brk);
+		}
+		this.pushRange(paragraphs, text, start, text.length);
+		return paragraphs;
+	}
+
+	/** Push [from, to) with surrounding whitespace trimmed, if anything remains */
+	private pushRange(ranges: PlainRange[], text: string, from: number, to: number): void {
+		while (from < to && /\s/.test(text[from])) from++;
+		while (to > from && /\s/.test(text[to - 1])) to--;
+		if (from < to) ranges.push({ from, to });
+	}
+
 	// ── Chunking ────────────────────────────────────────────────────────
 
 	/**
-	 * Split plain text into chunks at sentence boundaries.
-	 * Falls back to word boundaries, then hard split.
+	 * Split plain text into chunks, starting a new chunk wherever the
+	 * language changes so each chunk is spoken by a single voice.
 	 */
 	private splitChunks(
 		text: string,
-		maxSize: number
+		maxSize: number,
+		languages: LanguageRange[] = []
 	): { chunks: string[]; chunkOffsets: number[] } {
-		if (text.length <= maxSize) {
-			return { chunks: [text], chunkOffsets: [0] };
-		}
-
 		const chunks: string[] = [];
 		const chunkOffsets: number[] = [];
-		let offset = 0;
+		let from = 0;
+		for (const range of languages) {
+			if (range.from <= from || range.from >= text.length) continue;
+			this.splitSegment(text, from, range.from, maxSize, chunks, chunkOffsets);
+			from = range.from;
+		}
+		this.splitSegment(text, from, text.length, maxSize, chunks, chunkOffsets);
+		return { chunks, chunkOffsets };
+	}
 
-		while (offset < text.length) {
-			if (offset + maxSize >= text.length) {
-				chunks.push(text.substring(offset));
+	/**
+	 * Split text[from, end) into chunks at sentence boundaries.
+	 * Falls back to word boundaries, then hard split.
+	 */
+	private splitSegment(
+		text: string,
+		from: number,
+		end: number,
+		maxSize: number,
+		chunks: string[],
+		chunkOffsets: number[]
+	): void {
+		let offset = from;
+
+		while (offset < end) {
+			if (offset + maxSize >= end) {
+				chunks.push(text.substring(offset, end));
 				chunkOffsets.push(offset);
 				break;
 			}
 
 			let splitAt = -1;
-			const searchEnd = Math.min(offset + maxSize, text.length);
-			const searchRegion = text.substring(offset, searchEnd);
+			const searchRegion = text.substring(offset, offset + maxSize);
 
 			// Try to split at a period followed by space (sentence boundary)
 			const lastSentence = searchRegion.lastIndexOf(". ");
@@ -548,7 +1202,5 @@ export class TextPreparer {
 			chunkOffsets.push(offset);
 			offset = splitAt;
 		}
-
-		return { chunks, chunkOffsets };
 	}
 }
@@ -0,0 +1,112 @@
+import type { PreparedText, SubtitleCue } from "../types";
+
+/** Duration given to the last cue when the session end time is unknown */
+const LAST_CUE_FALLBACK_MS = 2000;
+
+/** A spoken word with its start time relative to the session start */
+interface TimedWord {
+	/** Plain-text range of the word */
+	from: number;
+	to: number;
+	/** Index of the sentence the word belongs to */
+	sentence: number;
+	/** Milliseconds of playback (pauses excluded) since the session started */
+	time: number;
+}
+
+/**
+ * Records the boundary events of a playback session with timestamps, so
+ * the session can be exported as a timed transcript. Paused time is left
+ * out of the timeline.
+ */
+export class TimingRecorder {
+	private prepared: PreparedText | null = null;
+	private words: TimedWord[] = [];
+	private startedAt = 0;
+	private pausedAt: number | null = null;
+	private pausedTotal = 0;
+	private endTime: number | null = null;
+
+	/** Begin a new recording for the given prepared text */
+	start(prepared: PreparedText): void {
+		this.prepared = prepared;
+		this.words = [];
+		this.startedAt = performance.now();
+		this.pausedAt = null;
+		this.pausedTotal = 0;
+		this.endTime = null;
+	}
+
+	/**
+	 * Swap in text re-prepared after an edit. Recorded words stay valid
+	 * because the text before the edit point keeps its offsets.
+	 */
+	replacePrepared(prepared: PreparedText): void {
+		if (this.prepared) this.prepared = prepared;
+	}
+
+	pause(): void {
+		if (this.pausedAt === null) this.pausedAt = performance.now();
+	}
+
+	resume(): void {
+		if (this.pausedAt === null) return;
+		this.pausedTotal += performance.now() - this.pausedAt;
+		this.pausedAt = null;
+	}
+
+	recordWord(from: number, to: number, sentence: number): void {
+		if (!this.prepared || this.endTime !== null) return;
+		this.words.push({ from, to, sentence, time: this.elapsed() });
+	}
+
+	/** Mark the end of the session */
+	finish(): void {
+		if (!this.prepared || this.endTime !== null) return;
+		this.resume();
+		this.endTime = this.elapsed();
+	}
+
+	hasRecording(): boolean {
+		return this.words.length > 0;
+	}
+
+	/**
+	 * Group recorded words into one cue per sentence. Consecutive words of
+	 * the same sentence form a cue; a cue ends where the next one starts.
+	 */
+	getCues(): SubtitleCue[] {
+		if (!this.prepared) return [];
+		const { text, sentences } = this.prepared;
+		const cues: SubtitleCue[] = [];
+
+		let first = 0;
+		while (first < this.words.length) {
+			let last = first;
+			while (last + 1 < this.words.length && this.words[last + 1].sentence === this.words[first].sentence) {
+				last++;
+			}
+
+			const start = this.words[first];
+			const sentence = sentences[start.sentence];
+			const textEnd = sentence ? Math.max(sentence.to, this.words[last].to) : this.words[last].to;
+			const next = this.words[last + 1];
+			const end = next?.time ?? this.endTime ?? this.words[last].time + LAST_CUE_FALLBACK_MS;
+
+			cues.push({
+				start: start.time,
+				end: Math.max(end, start.time),
+				text: text.substring(start.from, textEnd).trim(),
+			});
+			first = last + 1;
+		}
+
+		return cues;
+	}
+
+	/** Playback time since start, excluding pauses */
+	private elapsed(): number {
+		const now = this.pausedAt ?? performance.now();
+		return now - this.startedAt - this.pausedTotal;
+	}
+}
@@ -0,0 +1,61 @@
+import { type App, TFile, parseLinktext, resolveSubpath } from "obsidian";
+import type { EmbeddedNotes } from "../types";
+
+/** How many levels of embeds inside embeds are read */
+const MAX_EMBED_DEPTH = 3;
+/** Wiki embeds: ![[target]] or ![[target|display]] */
+const EMBED_RE = /!\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g;
+
+/**
+ * Resolve the note embeds in `text` to the embedded note or section text,
+ * recursively up to MAX_EMBED_DEPTH. Embeds of non-note files, missing
+ * targets and embeds that would loop back into a note being read are left out.
+ */
+export async function resolveEmbeds(app: App, text: string, sourcePath: string): Promise<EmbeddedNotes> {
+	return resolveLevel(app, text, sourcePath, [sourcePath]);
+}
+
+async function resolveLevel(app: App, text: string, sourcePath: string, ancestors: string[]): Promise<EmbeddedNotes> {
+	const embeds: EmbeddedNotes = {};
+	if (ancestors.length > MAX_EMBED_DEPTH) return embeds;
+
+	EMBED_RE.lastIndex = 0;
+	const keys: string[] = [];
+	let match: RegExpExecArray | null;
+	while ((match = EMBED_RE.exec(text))) {
+		// Keyed by the link target as written, like TextPreparer looks it up
+		const key = match[1].trim();
+		if (!keys.includes(key)) keys.push(key);
+	}
+
+	for (const key of keys) {
+		const { path, subpath } = parseLinktext(key);
+		const file = app.metadataCache.getFirstLinkpathDest(path, sourcePath);
+		if (!(file instanceof TFile) || file.extension !== "md" || ancestors.includes(file.path)) continue;
+
+		const section = await readSection(app, file, subpath);
+		if (section === null) continue;
+		embeds[key] = {
+			text: section,
+			embeds: await resolveLevel(app, section, file.path, [...ancestors, file.path]),
+		};
+	}
+	return embeds;
+}
+
+/** Read a whole note, or the heading or block section named by `subpath` */
+async function readSection(app: App, file: TFile, subpath: string): Promise<string | null> {
+	let content: string;
+	try {
+		content = await app.vault.cachedRead(file);
+	} catch (e) {
+		console.debug(`TTS Highlight: could not read embedded note ${file.path}`, e);
+		return null;
+	}
+	if (!subpath) return content;
+
+	const cache = app.metadataCache.getFileCache(file);
+	const result = cache ? resolveSubpath(cache, subpath) : null;
+	if (!result) return null;
+	return content.substring(result.start.offset, result.end ? result.end.offset : content.length);
+}
@@ -0,0 +1,26 @@
+import type { SubtitleCue, SubtitleFormat } from "../types";
+
+/** Format milliseconds as HH:MM:SS.mmm (or HH:MM:SS,mmm for SRT) */
+function formatTimestamp(ms: number, separator: "." | ","): string {
+	const total = Math.max(0, Math.round(ms));
+	const hours = Math.floor(total / 3600000);
+	const minutes = Math.floor((total % 3600000) / 60000);
+	const seconds = Math.floor((total % 60000) / 1000);
+	const millis = total % 1000;
+	const pad = (n: number, width: number) => ("000" + String(n)).slice(-width);
+	return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)}${separator}${pad(millis, 3)}`;
+}
+
+/** Render cues as a WebVTT or SRT document */
+export function formatSubtitles(cues: SubtitleCue[], format: SubtitleFormat): string {
+	const separator = format === "vtt" ? "." : ",";
+	const blocks = cues.map((cue, i) => {
+		const timing = `${formatTimestamp(cue.start, separator)} --> ${formatTimestamp(cue.end, separator)}`;
+		return `${i + 1}\n${timing}\n${cue.text}`;
+	});
+
+	if (format === "vtt") {
+		blocks.unshift("WEBVTT");
+	}
+	return blocks.join("\n\n") + "\n";
+}
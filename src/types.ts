@@ -1,25 +1,149 @@
+/** Which speech synthesis backend to use */
+export type SpeechBackendType = "webspeech" | "server";
+
+/** File format for exported timing tracks */
+export type SubtitleFormat = "vtt" | "srt";
+
+/** How text already spoken is set apart from upcoming text */
+export type SpokenStyle = "off" | "dim" | "tint";
+
+/** Which clicks move playback to the clicked word */
+export type ClickToSeekMode = "off" | "click" | "alt-click";
+
+/** A user pronunciation: text matching `pattern` is spoken as `replacement` */
+export interface PronunciationEntry {
+	pattern: string;
+	replacement: string;
+	/** Treat `pattern` as a regular expression; `$1`… in `replacement` insert groups */
+	regex: boolean;
+	/** Empty for all notes, otherwise only notes listing this name in `tts-dictionary` frontmatter */
+	scope: string;
+}
+
+/** A voice to use for text in one language */
+export interface LanguageVoice {
+	/** Language tag, e.g. "nl" or "de-AT"; matched on its primary subtag */
+	language: string;
+	/** voiceURI of the system voice */
+	voice: string;
+}
+
 export interface TTSSettings {
+	backend: SpeechBackendType;
+	/** URL of the local synthesis server (server backend only) */
+	serverEndpoint: string;
 	voice: string;
 	rate: number;
 	pitch: number;
 	volume: number;
 	highlightColor: string;
+	/** Also highlight the sentence currently being spoken */
+	sentenceHighlight: boolean;
+	sentenceHighlightColor: string;
+	spokenStyle: SpokenStyle;
+	/** Background of spoken text in the "tint" style */
+	spokenColor: string;
 	autoScroll: boolean;
 	chunkSize: number;
+	clickToSeek: ClickToSeekMode;
+	/** Save the last spoken position per note so reading can be resumed */
+	rememberPosition: boolean;
+	/** Open each queued note while reading it, instead of reading in the background */
+	queueOpenNotes: boolean;
+	pronunciations: PronunciationEntry[];
+	subtitleFormat: SubtitleFormat;
+	/** Speak callout types ("Warning:") instead of dropping them */
+	announceCallouts: boolean;
+	/** Read callouts that are collapsed by default (`[!type]-`) */
+	readCollapsedCallouts: boolean;
+	// Content filters: which kinds of content are spoken
+	readHeadings: boolean;
+	readCodeBlocks: boolean;
+	readInlineCode: boolean;
+	readTables: boolean;
+	readImageAlt: boolean;
+	/** Obsidian `%%comments%%` */
+	readComments: boolean;
+	/** HTML `<!-- comments -->` */
+	readHtmlComments: boolean;
+	/** Footnote definitions and inline footnotes */
+	readFootnotes: boolean;
+	/** `$inline$` and `$$block$$` math */
+	readMath: boolean;
+	/** Read embedded notes (![[note]]) in place instead of their link text */
+	readEmbeds: boolean;
+	/** Detect the language of each sentence and switch voices to match */
+	detectLanguage: boolean;
+	/** Language assumed when detection is inconclusive; a note's `lang` frontmatter overrides it */
+	defaultLanguage: string;
+	/** Preferred voice per language */
+	languageVoices: LanguageVoice[];
 }
 
 export const DEFAULT_SETTINGS: TTSSettings = {
+	backend: "webspeech",
+	serverEndpoint: "http://localhost:5002/api/tts",
 	voice: "",
 	rate: 1.0,
 	pitch: 1.0,
 	volume: 1.0,
 	highlightColor: "",
+	sentenceHighlight: true,
+	sentenceHighlightColor: "",
+	spokenStyle: "off",
+	spokenColor: "",
 	autoScroll: true,
 	chunkSize: 5000,
+	clickToSeek: "alt-click",
+	rememberPosition: true,
+	queueOpenNotes: true,
+	pronunciations: [],
+	subtitleFormat: "vtt",
+	announceCallouts: true,
+	readCollapsedCallouts: true,
+	readHeadings: true,
+	readCodeBlocks: false,
+	readInlineCode: true,
+	readTables: true,
+	readImageAlt: true,
+	readComments: false,
+	readHtmlComments: false,
+	readFootnotes: true,
+	readMath: true,
+	readEmbeds: false,
+	detectLanguage: false,
+	defaultLanguage: "",
+	languageVoices: [],
 };
 
+/** A saved reading position for one note */
+export interface ReadingPosition {
+	/** Editor offset of the last spoken word */
+	offset: number;
+	/** File modification time the offset refers to */
+	mtime: number;
+	/** Text following the offset, used to relocate it after the file changed */
+	context: string;
+}
+
+/** Everything persisted in the plugin's data.json */
+export interface PluginData extends TTSSettings {
+	/** Saved reading positions keyed by file path */
+	readingPositions?: Record<string, ReadingPosition>;
+}
+
 export type PlaybackState = "idle" | "playing" | "paused";
 
+/** How far playback has come through the text being read */
+export interface PlaybackProgress {
+	chunkIndex: number;
+	totalChunks: number;
+	/** Share of the plain text before the word being spoken, 0 - 100 */
+	percent: number;
+	/** Estimated seconds left, from the measured speaking speed */
+	remainingSeconds: number;
+}
+
 /** A single entry mapping plain-text offset → editor offset */
 export interface PositionMapEntry {
 	/** Character index in stripped plain text */
@@ -28,14 +152,93 @@ export interface PositionMapEntry {
 	editor: number;
 }
 
+/** Range in stripped plain-text coordinates */
+export interface PlainRange {
+	from: number;
+	to: number;
+}
+
+/** A plain-text range in one language */
+export interface LanguageRange extends PlainRange {
+	/** Language tag, or "" when unknown */
+	language: string;
+}
+
+/**
+ * Settings controlling how markdown is turned into spoken text.
+ * Pronunciations must already be filtered by note scope.
+ */
+export type PrepareOptions = Partial<Pick<TTSSettings,
+	| "pronunciations"
+	| "announceCallouts"
+	| "readCollapsedCallouts"
+	| "readHeadings"
+	| "readCodeBlocks"
+	| "readInlineCode"
+	| "readTables"
+	| "readImageAlt"
+	| "readComments"
+	| "readHtmlComments"
+	| "readFootnotes"
+	| "readMath"
+	| "detectLanguage"
+	| "defaultLanguage"
+>> & {
+	/** Resolved note embeds to read in place of their ![[...]] links */
+	embeds?: EmbeddedNotes;
+};
+
+/** Text of a note (or note section) embedded with ![[...]] */
+export interface EmbeddedNote {
+	text: string;
+	/** The embeds inside this text, resolved relative to the embedded note */
+	embeds: EmbeddedNotes;
+}
+
+/** Embedded notes keyed by link target as written, e.g. "Other note#Heading" */
+export type EmbeddedNotes = Record<string, EmbeddedNote>;
+
 /** Result of preparing text for TTS */
 export interface PreparedText {
+	/** The full stripped plain text */
+	text: string;
 	/** Chunks of plain text to speak */
 	chunks: string[];
 	/** Position map entries (sorted by .plain ascending) */
 	map: PositionMapEntry[];
 	/** The plain-text offset where each chunk starts */
 	chunkOffsets: number[];
+	/** Sentence ranges (sorted by .from ascending, non-overlapping) */
+	sentences: PlainRange[];
+	/** Paragraph ranges (sorted by .from ascending, non-overlapping) */
+	paragraphs: PlainRange[];
+	/** Ranges whose spoken text replaces different source text, e.g. pronunciations (sorted) */
+	substitutions: PlainRange[];
+	/** Ranges spoken for math formulas, a subset of substitutions (sorted) */
+	formulas: PlainRange[];
+	/** Ranges spoken from embedded notes; each maps onto its whole ![[...]] link (sorted) */
+	embeds: PlainRange[];
+	/** Language of the text, covering it contiguously; chunks never span two (empty when detection is off) */
+	languages: LanguageRange[];
+}
+
+/** A rendered reading-mode section and the editor range it was rendered from */
+export interface ReadingSection {
+	el: HTMLElement;
+	from: number;
+	to: number;
+}
+
+/** A reading-mode view being read aloud */
+export interface ReadingTarget {
+	/** Container of the rendered note */
+	container: HTMLElement;
+	/** The rendered sections, in document order */
+	getSections(): ReadingSection[];
+	/** The rendered section containing an editor offset */
+	sectionAt(offset: number): ReadingSection | null;
+	/** Scroll the view to show the given editor offset */
+	scrollToOffset(offset: number): void;
 }
 
 /** Range in editor coordinates */
@@ -44,6 +247,13 @@ export interface EditorRange {
 	to: number;
 }
 
+/** A timed transcript cue, in milliseconds since playback started */
+export interface SubtitleCue {
+	start: number;
+	end: number;
+	text: string;
+}
+
 /** Events emitted by PlaybackController */
 export interface PlaybackEvent {
 	type: "highlight";
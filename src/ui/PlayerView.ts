@@ -0,0 +1,247 @@
+import { ItemView, Notice, type TFile, type WorkspaceLeaf, setIcon } from "obsidian";
+import type { PlaybackController } from "../tts/PlaybackController";
+import { SpeechEngine } from "../tts/SpeechEngine";
+import type { PlaybackState, TTSSettings } from "../types";
+import { formatDuration } from "./formatDuration";
+
+export const PLAYER_VIEW_TYPE = "tts-highlight-player";
+
+/** Rates offered by the rate switch */
+const RATE_PRESETS = [0.5, 0.75, 1.0, 1.25, 1.5, 1.75, 2.0];
+
+/** What the player panel needs from the plugin besides the controller */
+export interface PlayerHost {
+	settings: TTSSettings;
+	/** Start reading the note in the most recently used editor */
+	readRecentNote(): void;
+	/** The note being read, whose headings are listed */
+	getReadingFile(): TFile | null;
+	/** Change the voice or rate of the current playback only */
+	changeSessionVoice(changes: Partial<Pick<TTSSettings, "voice" | "rate">>): void;
+}
+
+/**
+ * Side panel with transport buttons, a scrubbable progress bar over the
+ * plain text, the sentence being spoken, the headings in the text being
+ * read as seek targets, and voice and rate switches for the current playback.
+ */
+export class PlayerView extends ItemView {
+	private controller: PlaybackController;
+	private host: PlayerHost;
+	private playBtn!: HTMLElement;
+	private progressEl!: HTMLInputElement;
+	private timeEl!: HTMLElement;
+	private sentenceEl!: HTMLElement;
+	private headingsEl!: HTMLElement;
+	private voiceSelect!: HTMLSelectElement;
+	private rateSelect!: HTMLSelectElement;
+	/** True while the progress bar is dragged, so playback does not move it */
+	private scrubbing = false;
+	/** The note whose headings are listed; undefined until they are first rendered */
+	private headingsFile: TFile | null | undefined = undefined;
+	/** Editor range the listed headings were picked from */
+	private headingsRange: { from: number; to: number } | null = null;
+	/** State the transport buttons show, so icons are only rebuilt when it changes */
+	private shownState: PlaybackState | null = null;
+
+	constructor(leaf: WorkspaceLeaf, controller: PlaybackController, host: PlayerHost) {
+		super(leaf);
+		this.controller = controller;
+		this.host = host;
+	}
+
+	getViewType(): string {
+		return PLAYER_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "TTS player";
+	}
+
+	getIcon(): string {
+		return "audio-lines";
+	}
+
+	async onOpen(): Promise<void> {
+		const root = this.contentEl;
+		root.empty();
+		root.addClass("tts-player");
+
+		this.addTransport(root);
+		this.addProgress(root);
+		this.sentenceEl = root.createDiv({ cls: "tts-player-sentence" });
+		this.addSwitches(root);
+		root.createEl("h6", { text: "Headings", cls: "tts-player-heading-title" });
+		this.headingsEl = root.createDiv({ cls: "tts-player-headings" });
+
+		this.refresh();
+	}
+
+	async onClose(): Promise<void> {
+		this.shownState = null;
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Show the current position, time left and sentence. Called for every
+	 * spoken word, so the buttons are only updated when the playback state
+	 * changes and the switches when their value does.
+	 */
+	refresh(): void {
+		if (!this.playBtn) return;
+		const state = this.controller.getState();
+		if (state !== this.shownState) this.showState(state);
+
+		const progress = this.controller.getPosition();
+		this.progressEl.disabled = progress === null;
+		if (!this.scrubbing) {
+			this.progressEl.max = String(progress?.length ?? 0);
+			this.progressEl.value = String(progress?.offset ?? 0);
+		}
+		this.sentenceEl.setText(progress?.sentence ?? "");
+		if (progress) {
+			const { percent, remainingSeconds } = this.controller.getProgress();
+			this.timeEl.setText(`${Math.floor(percent)}% · ${formatDuration(remainingSeconds)} left`);
+		} else {
+			this.timeEl.setText("");
+		}
+
+		this.showVoiceSettings();
+
+		const file = state !== "idle" ? this.host.getReadingFile() : null;
+		const range = this.controller.getSourceRange();
+		if (file !== this.headingsFile || !sameRange(range, this.headingsRange)) this.renderHeadings(file, range);
+	}
+
+	/** Update the play button and the switches' availability for a new playback state */
+	private showState(state: PlaybackState): void {
+		this.shownState = state;
+		setIcon(this.playBtn, state === "playing" ? "pause" : "play");
+		this.playBtn.setAttribute("aria-label", state === "playing" ? "Pause" : "Play");
+
+		// The switches change the current playback, so they need one
+		this.voiceSelect.disabled = state === "idle";
+		this.rateSelect.disabled = state === "idle";
+	}
+
+	/** Select the voice and rate of the current playback, or the defaults while idle */
+	private showVoiceSettings(): void {
+		const playing = this.controller.getState() !== "idle";
+		const settings = (playing ? this.controller.getSettings() : null) ?? this.host.settings;
+		if (this.voiceSelect.value !== settings.voice) this.voiceSelect.value = settings.voice;
+		if (this.rateSelect.value !== String(settings.rate)) this.setRateOption(settings.rate);
+	}
+
+	private addTransport(root: HTMLElement): void {
+		const bar = root.createDiv({ cls: "tts-player-transport" });
+		this.addButton(bar, "chevrons-left", "Previous paragraph", () => this.controller.skipParagraph(-1));
+		this.addButton(bar, "chevron-left", "Previous sentence", () => this.controller.skipSentence(-1));
+		this.playBtn = this.addButton(bar, "play", "Play", () => {
+			if (this.controller.getState() === "idle") this.host.readRecentNote();
+			else this.controller.togglePause();
+		});
+		this.addButton(bar, "square", "Stop", () => this.controller.stop());
+		this.addButton(bar, "chevron-right", "Next sentence", () => this.controller.skipSentence(1));
+		this.addButton(bar, "chevrons-right", "Next paragraph", () => this.controller.skipParagraph(1));
+	}
+
+	private addButton(parent: HTMLElement, icon: string, label: string, onClick: () => void): HTMLElement {
+		const btn = parent.createEl("button", { cls: "clickable-icon tts-player-btn" });
+		setIcon(btn, icon);
+		btn.setAttribute("aria-label", label);
+		btn.addEventListener("click", onClick);
+		return btn;
+	}
+
+	private addProgress(root: HTMLElement): void {
+		this.progressEl = root.createEl("input", { cls: "tts-player-progress", type: "range" });
+		this.progressEl.min = "0";
+		this.progressEl.setAttribute("aria-label", "Position");
+		this.timeEl = root.createDiv({ cls: "tts-player-time" });
+		this.registerDomEvent(this.progressEl, "input", () => {
+			this.scrubbing = true;
+		});
+		this.registerDomEvent(this.progressEl, "change", () => {
+			this.scrubbing = false;
+			this.controller.seekToPlain(Number(this.progressEl.value));
+		});
+	}
+
+	private addSwitches(root: HTMLElement): void {
+		const row = root.createDiv({ cls: "tts-player-switches" });
+
+		this.voiceSelect = row.createEl("select", { cls: "dropdown" });
+		this.voiceSelect.setAttribute("aria-label", "Voice");
+		this.renderVoiceOptions();
+		this.registerDomEvent(this.voiceSelect, "change", () => {
+			this.host.changeSessionVoice({ voice: this.voiceSelect.value });
+		});
+		// Voices may load after the panel opens
+		const onVoicesChanged = () => {
+			this.renderVoiceOptions();
+			this.showVoiceSettings();
+		};
+		if (SpeechEngine.isSupported()) {
+			window.speechSynthesis.addEventListener("voiceschanged", onVoicesChanged);
+			this.register(() => window.speechSynthesis.removeEventListener("voiceschanged", onVoicesChanged));
+		}
+
+		this.rateSelect = row.createEl("select", { cls: "dropdown" });
+		this.rateSelect.setAttribute("aria-label", "Rate");
+		for (const rate of RATE_PRESETS) this.addRateOption(rate);
+		this.registerDomEvent(this.rateSelect, "change", () => {
+			this.host.changeSessionVoice({ rate: Number(this.rateSelect.value) });
+		});
+	}
+
+	private renderVoiceOptions(): void {
+		this.voiceSelect.empty();
+		this.voiceSelect.createEl("option", { text: "System default", value: "" });
+		for (const voice of SpeechEngine.getVoices()) {
+			this.voiceSelect.createEl("option", { text: `${voice.name} (${voice.lang})`, value: voice.voiceURI });
+		}
+	}
+
+	/** Select a rate, adding it to the switch if it is not a preset (e.g. set by a command) */
+	private setRateOption(rate: number): void {
+		const value = String(rate);
+		if (!Array.from(this.rateSelect.options).some((o) => o.value === value)) this.addRateOption(rate);
+		this.rateSelect.value = value;
+	}
+
+	private addRateOption(rate: number): void {
+		const next = Array.from(this.rateSelect.options).find((o) => Number(o.value) > rate);
+		const option = this.rateSelect.createEl("option", { text: `${rate}×`, value: String(rate) });
+		// Keep the options sorted
+		if (next) this.rateSelect.insertBefore(option, next);
+	}
+
+	/** List the note's headings that lie inside the range being read (a selection or heading section) */
+	private renderHeadings(file: TFile | null, range: { from: number; to: number } | null): void {
+		this.headingsFile = file;
+		this.headingsRange = range;
+		this.headingsEl.empty();
+		const headings = file && range
+			? (this.app.metadataCache.getFileCache(file)?.headings ?? [])
+				.filter((h) => h.position.start.offset >= range.from && h.position.start.offset < range.to)
+			: [];
+		if (headings.length === 0) {
+			this.headingsEl.createDiv({ text: "No headings to jump to.", cls: "tts-player-empty" });
+			return;
+		}
+
+		for (const heading of headings) {
+			const item = this.headingsEl.createDiv({ text: heading.heading, cls: "tts-player-heading" });
+			item.setCssProps({ "--tts-heading-level": String(heading.level - 1) });
+			item.addEventListener("click", () => {
+				if (!this.controller.seekToSourceOffset(heading.position.start.offset)) {
+					new Notice("This heading is outside the text being read.");
+				}
+			});
+		}
+	}
+}
+
+function sameRange(a: { from: number; to: number } | null, b: { from: number; to: number } | null): boolean {
+	return a?.from === b?.from && a?.to === b?.to;
+}
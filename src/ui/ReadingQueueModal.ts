@@ -0,0 +1,79 @@
+import { type App, Modal, Setting } from "obsidian";
+import type { ReadingQueue } from "../queue/ReadingQueue";
+
+/** Modal listing the reading queue, with controls to reorder, remove, play and skip */
+export class ReadingQueueModal extends Modal {
+	private queue: ReadingQueue;
+	private onPlay: () => void;
+	private onSkip: () => void;
+
+	constructor(app: App, queue: ReadingQueue, onPlay: () => void, onSkip: () => void) {
+		super(app);
+		this.queue = queue;
+		this.onPlay = onPlay;
+		this.onSkip = onSkip;
+	}
+
+	onOpen(): void {
+		this.setTitle("Reading queue");
+		this.queue.setChangeCallback(() => this.render());
+		this.render();
+	}
+
+	onClose(): void {
+		this.queue.setChangeCallback(null);
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const nowReading = this.queue.getNowReading();
+		if (nowReading) {
+			new Setting(contentEl)
+				.setName(nowReading.basename)
+				.setDesc("Now reading")
+				.addExtraButton((btn) =>
+					btn.setIcon("skip-forward").setTooltip("Skip").onClick(() => this.onSkip())
+				);
+		}
+
+		const items = this.queue.getItems();
+		if (items.length === 0) {
+			contentEl.createEl("p", { text: "The queue is empty.", cls: "tts-queue-empty" });
+		}
+
+		items.forEach((file, index) => {
+			new Setting(contentEl)
+				.setName(file.basename)
+				.setDesc(file.parent?.path ?? "")
+				.addExtraButton((btn) =>
+					btn.setIcon("arrow-up").setTooltip("Move up").setDisabled(index === 0)
+						.onClick(() => this.queue.move(index, index - 1))
+				)
+				.addExtraButton((btn) =>
+					btn.setIcon("arrow-down").setTooltip("Move down").setDisabled(index === items.length - 1)
+						.onClick(() => this.queue.move(index, index + 1))
+				)
+				.addExtraButton((btn) =>
+					btn.setIcon("x").setTooltip("Remove").onClick(() => this.queue.remove(index))
+				);
+		});
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Clear").setDisabled(items.length === 0).onClick(() => this.queue.clear())
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Play")
+					.setCta()
+					.setDisabled(items.length === 0 || nowReading !== null)
+					.onClick(() => {
+						this.close();
+						this.onPlay();
+					})
+			);
+	}
+}
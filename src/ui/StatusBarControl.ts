@@ -1,21 +1,29 @@
 import { type Plugin, setIcon } from "obsidian";
-import type { PlaybackState } from "../types";
+import type { PlaybackProgress, PlaybackState } from "../types";
+import { formatDuration } from "./formatDuration";
+
+/** Callbacks for the status bar buttons */
+export interface StatusBarActions {
+	onPause: () => void;
+	onStop: () => void;
+	/** Make speech faster (1) or slower (-1) */
+	onRate: (direction: 1 | -1) => void;
+	/** Make speech louder (1) or quieter (-1) */
+	onVolume: (direction: 1 | -1) => void;
+}
 
 export class StatusBarControl {
 	private el: HTMLElement;
 	private pauseBtn: HTMLElement;
 	private progressEl: HTMLElement;
+	private rateEl: HTMLElement;
 	private stopBtn: HTMLElement;
-	private onPause: () => void;
-	private onStop: () => void;
+	private actions: StatusBarActions;
+	/** State the pause button shows, so its icon is only rebuilt when it changes */
+	private shownState: PlaybackState = "idle";
 
-	constructor(
-		plugin: Plugin,
-		onPause: () => void,
-		onStop: () => void
-	) {
-		this.onPause = onPause;
-		this.onStop = onStop;
+	constructor(plugin: Plugin, actions: StatusBarActions) {
+		this.actions = actions;
 
 		this.el = plugin.addStatusBarItem();
 		this.el.addClass("tts-status-bar");
@@ -23,34 +31,57 @@ export class StatusBarControl {
 		this.pauseBtn = this.el.createEl("span", { cls: "tts-btn" });
 		setIcon(this.pauseBtn, "pause");
 		this.pauseBtn.setAttribute("aria-label", "Pause");
-		this.pauseBtn.addEventListener("click", () => this.onPause());
+		this.pauseBtn.addEventListener("click", () => this.actions.onPause());
 
 		this.progressEl = this.el.createEl("span", { cls: "tts-progress" });
 
+		this.addButton("chevrons-left", "Slow down", () => this.actions.onRate(-1));
+		this.rateEl = this.el.createEl("span", { cls: "tts-rate" });
+		this.rateEl.setAttribute("aria-label", "Speech rate");
+		this.addButton("chevrons-right", "Speed up", () => this.actions.onRate(1));
+		this.addButton("volume-1", "Volume down", () => this.actions.onVolume(-1));
+		this.addButton("volume-2", "Volume up", () => this.actions.onVolume(1));
+
 		this.stopBtn = this.el.createEl("span", { cls: "tts-btn" });
 		setIcon(this.stopBtn, "square");
 		this.stopBtn.setAttribute("aria-label", "Stop");
-		this.stopBtn.addEventListener("click", () => this.onStop());
+		this.stopBtn.addEventListener("click", () => this.actions.onStop());
 	}
 
-	update(state: PlaybackState, chunkIndex: number, totalChunks: number): void {
-		if (state === "idle") {
+	/** Show the playback state and progress; called for every spoken word */
+	update(state: PlaybackState, progress: PlaybackProgress | null): void {
+		if (state === "idle" || !progress) {
+			this.shownState = "idle";
 			this.el.removeClass("is-active");
 			return;
 		}
 
-		this.el.addClass("is-active");
-		setIcon(this.pauseBtn, state === "paused" ? "play" : "pause");
-		this.pauseBtn.setAttribute("aria-label", state === "paused" ? "Resume" : "Pause");
-
-		if (totalChunks > 1) {
-			this.progressEl.textContent = `${chunkIndex + 1}/${totalChunks}`;
-		} else {
-			this.progressEl.textContent = "";
+		if (state !== this.shownState) {
+			this.shownState = state;
+			this.el.addClass("is-active");
+			setIcon(this.pauseBtn, state === "paused" ? "play" : "pause");
+			this.pauseBtn.setAttribute("aria-label", state === "paused" ? "Resume" : "Pause");
 		}
+
+		const left = formatDuration(progress.remainingSeconds);
+		this.progressEl.textContent = `${Math.floor(progress.percent)}% · ${left}`;
+		this.progressEl.setAttribute("aria-label", `${left} left`);
+	}
+
+	/** Show the speech rate of the current session */
+	setRate(rate: number): void {
+		const text = `${rate.toFixed(1)}×`;
+		if (this.rateEl.textContent !== text) this.rateEl.textContent = text;
 	}
 
 	destroy(): void {
 		this.el.remove();
 	}
+
+	private addButton(icon: string, label: string, onClick: () => void): void {
+		const btn = this.el.createEl("span", { cls: "tts-btn" });
+		setIcon(btn, icon);
+		btn.setAttribute("aria-label", label);
+		btn.addEventListener("click", onClick);
+	}
 }
@@ -0,0 +1,9 @@
+/** Format a duration in seconds as m:ss, or h:mm:ss from an hour */
+export function formatDuration(seconds: number): string {
+	const total = Math.max(0, Math.round(seconds));
+	const h = Math.floor(total / 3600);
+	const m = Math.floor((total % 3600) / 60);
+	const s = total % 60;
+	const pad = (n: number) => (n < 10 ? `0${n}` : String(n));
+	return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
@@ -0,0 +1,51 @@
+import { type App, type HeadingCache, TFile, type WorkspaceLeaf } from "obsidian";
+
+/** Markdown markers the outline leaves out when it renders a heading */
+const INLINE_MARKUP_RE = /\[\[(?:[^\]|]*\|)?([^\]]*)\]\]|\[([^\]]*)\]\([^)]*\)|[*_`=~]/g;
+
+/**
+ * The note shown in a core outline view and the index of the heading an
+ * outline item belongs to, or null when `target` is not an outline heading.
+ * Items are matched by their path of heading texts, so collapsed branches
+ * don't throw the index off.
+ */
+export function outlineHeadingAt(
+	app: App,
+	leaf: WorkspaceLeaf,
+	target: HTMLElement
+): { file: TFile; index: number } | null {
+	if (!target.closest(".tree-item-self")) return null;
+	// The outline's view state names the note it shows; give up rather than guess
+	const path = leaf.view.getState().file;
+	const file = typeof path === "string" ? app.vault.getAbstractFileByPath(path) : null;
+	if (!(file instanceof TFile)) return null;
+
+	const texts: string[] = [];
+	for (let item = target.closest(".tree-item"); item; item = item.parentElement?.closest(".tree-item") ?? null) {
+		texts.unshift(normalize(item.querySelector(":scope > .tree-item-self")?.textContent ?? ""));
+	}
+
+	const headings = app.metadataCache.getFileCache(file)?.headings ?? [];
+	const index = findHeadingPath(headings, texts);
+	return index >= 0 ? { file, index } : null;
+}
+
+/** Index of the heading whose chain of parent headings has the texts in `path` */
+function findHeadingPath(headings: HeadingCache[], path: string[]): number {
+	const stack: HeadingCache[] = [];
+	for (let i = 0; i < headings.length; i++) {
+		const heading = headings[i];
+		while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) stack.pop();
+		stack.push(heading);
+		if (stack.length === path.length && stack.every((h, depth) => normalize(h.heading) === path[depth])) {
+			return i;
+		}
+	}
+	return -1;
+}
+
+function normalize(text: string): string {
+	return text.replace(INLINE_MARKUP_RE, (_, wikiText?: string, linkText?: string) => wikiText ?? linkText ?? "")
+		.replace(/\s+/g, " ")
+		.trim();
+}
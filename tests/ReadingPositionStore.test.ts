@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { ReadingPositionStore } from "../src/ReadingPositionStore";
+
+const note = "# Title\n\nFirst paragraph here.\n\nSecond paragraph follows.";
+const second = note.indexOf("Second");
+
+describe("ReadingPositionStore", () => {
+	it("returns the saved offset for unchanged notes", () => {
+		const store = new ReadingPositionStore({});
+		store.set("a.md", second, note, 1);
+		expect(store.resolve("a.md", note, 1)).toBe(second);
+		expect(store.resolve("b.md", note, 1)).toBeNull();
+	});
+
+	it("relocates the offset after edits before it", () => {
+		const store = new ReadingPositionStore({});
+		store.set("a.md", second, note, 1);
+		const edited = "Intro line.\n" + note;
+		expect(store.resolve("a.md", edited, 2)).toBe(second + "Intro line.\n".length);
+		// The relocated position is saved for the new content
+		expect(store.toJSON()["a.md"].mtime).toBe(2);
+	});
+
+	it("picks the occurrence nearest to the old offset", () => {
+		const repeated = "Same words. Same words. Same words.";
+		const store = new ReadingPositionStore({});
+		store.set("a.md", 24, repeated, 1);
+		expect(store.resolve("a.md", "Added. " + repeated, 2)).toBe(19);
+	});
+
+	it("drops positions whose text is gone", () => {
+		const store = new ReadingPositionStore({});
+		store.set("a.md", second, note, 1);
+		expect(store.resolve("a.md", "# Title\n\nRewritten.", 2)).toBeNull();
+		expect(store.has("a.md")).toBe(false);
+	});
+
+	it("drops positions past the end of the note", () => {
+		const store = new ReadingPositionStore({ "a.md": { offset: 100, mtime: 1, context: "" } });
+		expect(store.resolve("a.md", note, 1)).toBeNull();
+		expect(store.has("a.md")).toBe(false);
+	});
+
+	it("follows renames and deletes", () => {
+		const store = new ReadingPositionStore({});
+		store.set("a.md", 0, note, 1);
+		expect(store.rename("a.md", "b.md")).toBe(true);
+		expect(store.has("a.md")).toBe(false);
+		expect(store.resolve("b.md", note, 1)).toBe(0);
+		expect(store.delete("b.md")).toBe(true);
+		expect(store.delete("b.md")).toBe(false);
+	});
+});
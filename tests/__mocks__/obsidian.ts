@@ -0,0 +1,63 @@
+/**
+ * Runtime stand-ins for the parts of the obsidian API used by the modules
+ * under test. The real implementations only exist inside the app.
+ */
+
+export class Notice {
+	message: string | DocumentFragment;
+
+	constructor(message: string | DocumentFragment) {
+		this.message = message;
+	}
+
+	hide(): void {}
+}
+
+export interface EventRef {
+	name: string;
+	callback: (...data: unknown[]) => unknown;
+}
+
+export class Events {
+	private refs: EventRef[] = [];
+
+	on(name: string, callback: (...data: unknown[]) => unknown): EventRef {
+		const ref = { name, callback };
+		this.refs.push(ref);
+		return ref;
+	}
+
+	offref(ref: EventRef): void {
+		this.refs = this.refs.filter((r) => r !== ref);
+	}
+
+	trigger(name: string, ...data: unknown[]): void {
+		for (const ref of this.refs.filter((r) => r.name === name)) ref.callback(...data);
+	}
+}
+
+/** Tests mock this with the response they need */
+export function requestUrl(): Promise<never> {
+	return Promise.reject(new Error("requestUrl is not available in tests"));
+}
+
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+	return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0)).buffer;
+}
+
+export class TFile {
+	path = "";
+	basename = "";
+	extension = "";
+}
+
+export function parseLinktext(linktext: string): { path: string; subpath: string } {
+	const index = linktext.indexOf("#");
+	if (index === -1) return { path: linktext, subpath: "" };
+	return { path: linktext.substring(0, index), subpath: linktext.substring(index) };
+}
+
+/** Tests mock this with the section they need */
+export function resolveSubpath(): null {
+	return null;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from "vitest";
+import { type App, TFile } from "obsidian";
+import { type ApiHost, TTSHighlightApi } from "../src/api";
+import type { PlaybackController } from "../src/tts/PlaybackController";
+import type { PlaybackProgress } from "../src/types";
+
+function progress(chunkIndex: number, totalChunks = 3): PlaybackProgress {
+	return { chunkIndex, totalChunks, percent: 0, remainingSeconds: 0 };
+}
+
+function createApi(files: Record<string, unknown> = {}): { api: TTSHighlightApi; host: ApiHost } {
+	const app = { vault: { getAbstractFileByPath: (path: string) => files[path] ?? null } } as unknown as App;
+	const host: ApiHost = { speakText: vi.fn(), readFile: vi.fn(async () => {}) };
+	return { api: new TTSHighlightApi(app, {} as PlaybackController, host), host };
+}
+
+describe("TTSHighlightApi", () => {
+	it("reports a chunk event only when the chunk changes", () => {
+		const { api } = createApi();
+		const chunks: number[][] = [];
+		api.on("chunk", (index, total) => chunks.push([index, total]));
+
+		api.notifyState("playing", progress(0));
+		api.notifyState("playing", progress(0));
+		api.notifyState("playing", progress(1));
+		api.notifyState("paused", progress(1));
+		expect(chunks).toEqual([[0, 3], [1, 3]]);
+	});
+
+	it("reports the first chunk again after playback stops", () => {
+		const { api } = createApi();
+		const chunks: number[] = [];
+		api.on("chunk", (index) => chunks.push(index));
+
+		api.notifyState("playing", progress(0));
+		api.notifyState("idle", progress(0));
+		api.notifyState("playing", progress(0));
+		expect(chunks).toEqual([0, 0]);
+	});
+
+	it("stops calling a callback after offref", () => {
+		const { api } = createApi();
+		const ends: boolean[] = [];
+		const ref = api.on("end", (finished) => ends.push(finished));
+
+		api.notifyEnd(true);
+		api.offref(ref);
+		api.notifyEnd(false);
+		expect(ends).toEqual([true]);
+	});
+
+	it("reads notes and rejects paths that are not files", async () => {
+		const note = new TFile();
+		const { api, host } = createApi({ "Note.md": note, "Folder": {} });
+
+		expect(await api.readFile("Note.md", 12)).toBe(true);
+		expect(host.readFile).toHaveBeenCalledWith(note, 12);
+		expect(await api.readFile("Folder")).toBe(false);
+		expect(await api.readFile("Missing.md")).toBe(false);
+		expect(host.readFile).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { EditorState } from "@codemirror/state";
+import { type DecorationSet, EditorView } from "@codemirror/view";
+import { setTTSHighlight, setTTSSpokenHighlight, ttsHighlightExtension } from "../../src/editor/highlightExtension";
+
+/** Ranges of the decorations with class `className` */
+function decorated(state: EditorState, className: string): [number, number][] {
+	const ranges: [number, number][] = [];
+	for (const source of state.facet(EditorView.decorations)) {
+		(source as DecorationSet).between(0, state.doc.length, (from, to, deco) => {
+			if (deco.spec.class === className) ranges.push([from, to]);
+		});
+	}
+	return ranges;
+}
+
+function speak(state: EditorState, spoken: { from: number; to: number } | null): EditorState {
+	return state.update({ effects: setTTSSpokenHighlight.of(spoken) }).state;
+}
+
+describe("spoken text highlight", () => {
+	const start = EditorState.create({ doc: "One two three four.", extensions: ttsHighlightExtension });
+
+	it("grows with each word, separately from the current word", () => {
+		let state = speak(start, { from: 0, to: 4 });
+		expect(decorated(state, "tts-spoken")).toEqual([[0, 4]]);
+
+		state = state.update({
+			effects: [setTTSSpokenHighlight.of({ from: 0, to: 8 }), setTTSHighlight.of({ from: 8, to: 13 })],
+		}).state;
+		expect(decorated(state, "tts-spoken")).toEqual([[0, 8]]);
+		expect(decorated(state, "tts-word-current")).toEqual([[8, 13]]);
+	});
+
+	it("follows edits to the note", () => {
+		const state = speak(start, { from: 0, to: 8 }).update({ changes: { from: 0, insert: "So: " } }).state;
+		expect(decorated(state, "tts-spoken")).toEqual([[4, 12]]);
+	});
+
+	it("clears on null and before the first word", () => {
+		const state = speak(start, { from: 0, to: 8 });
+		expect(decorated(speak(state, null), "tts-spoken")).toEqual([]);
+		expect(decorated(speak(state, { from: 0, to: 0 }), "tts-spoken")).toEqual([]);
+	});
+
+	it("is clamped to the document", () => {
+		expect(decorated(speak(start, { from: 4, to: 100 }), "tts-spoken")).toEqual([[4, 19]]);
+	});
+});
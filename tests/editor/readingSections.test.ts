@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from "vitest";
+import type { MarkdownView } from "obsidian";
+import { createReadingTarget } from "../../src/editor/readingSections";
+
+/** A markdown view over `lines` with one rendered section per entry of `sections` ([lineStart, lineEnd]) */
+function fakeView(lines: string[], sections: [number, number][]) {
+	const starts = lines.map((_, i) => lines.slice(0, i).reduce((sum, line) => sum + line.length + 1, 0));
+	const view = {
+		mode: "preview",
+		getMode: () => view.mode,
+		previewMode: {
+			renderer: { sections: sections.map(([lineStart, lineEnd]) => ({ el: {}, lineStart, lineEnd })) },
+			applyScroll: vi.fn(),
+		},
+		editor: {
+			cm: { state: { doc: {} } },
+			lastLine: () => lines.length - 1,
+			getLine: (line: number) => lines[line],
+			posToOffset: vi.fn((pos: { line: number; ch: number }) => starts[pos.line] + pos.ch),
+			getValue: vi.fn(() => lines.join("\n")),
+		},
+	};
+	return view;
+}
+
+function target(view: ReturnType<typeof fakeView>) {
+	return createReadingTarget(view as unknown as MarkdownView, {} as HTMLElement);
+}
+
+describe("createReadingTarget", () => {
+	it("converts section lines to editor offsets", () => {
+		const view = fakeView(["# Title", "", "Some text", "more"], [[0, 0], [2, 3]]);
+		const sections = target(view).getSections();
+		expect(sections.map(({ from, to }) => [from, to])).toEqual([[0, 8], [9, 23]]);
+		expect(view.editor.getValue).not.toHaveBeenCalled();
+	});
+
+	it("finds the section containing an offset", () => {
+		const view = fakeView(["# Title", "", "Some text"], [[0, 0], [2, 2]]);
+		const reading = target(view);
+		expect(reading.sectionAt(3)?.from).toBe(0);
+		expect(reading.sectionAt(8)).toBeNull();
+		expect(reading.sectionAt(12)?.from).toBe(9);
+	});
+
+	it("rebuilds after an edit only when asked in reading mode", () => {
+		const view = fakeView(["# Title", "Text"], [[0, 0], [1, 1]]);
+		const reading = target(view);
+		reading.getSections();
+		const built = view.editor.posToOffset.mock.calls.length;
+
+		view.mode = "source";
+		view.editor.cm.state.doc = {};
+		const cached = reading.getSections();
+		expect(view.editor.posToOffset.mock.calls.length).toBe(built);
+
+		view.mode = "preview";
+		expect(reading.getSections()).not.toBe(cached);
+		expect(view.editor.posToOffset.mock.calls.length).toBeGreaterThan(built);
+	});
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import type { HeadingCache } from "obsidian";
+import { enclosingSection, headingSection } from "../src/noteSections";
+
+/** Headings of a note, each given as [level, text, start offset] */
+function headings(...entries: [number, string, number][]): HeadingCache[] {
+	return entries.map(([level, heading, offset]) => ({
+		level,
+		heading,
+		position: { start: { line: 0, col: 0, offset }, end: { line: 0, col: 0, offset } },
+	}));
+}
+
+const note = headings([1, "Intro", 10], [2, "Details", 40], [3, "More", 60], [2, "Usage", 80], [1, "End", 120]);
+
+describe("headingSection", () => {
+	it("ends at the next heading of equal or higher level", () => {
+		expect(headingSection(note, 1, 200)).toEqual({ from: 40, to: 80, heading: "Details" });
+		expect(headingSection(note, 0, 200)).toEqual({ from: 10, to: 120, heading: "Intro" });
+	});
+
+	it("runs to the end of the note after the last heading", () => {
+		expect(headingSection(note, 4, 200)).toEqual({ from: 120, to: 200, heading: "End" });
+	});
+});
+
+describe("enclosingSection", () => {
+	it("finds the section of the last heading at or before the offset", () => {
+		expect(enclosingSection(note, 65, 200)).toEqual({ from: 60, to: 80, heading: "More" });
+		expect(enclosingSection(note, 80, 200)).toEqual({ from: 80, to: 120, heading: "Usage" });
+	});
+
+	it("returns the text before the first heading", () => {
+		expect(enclosingSection(note, 5, 200)).toEqual({ from: 0, to: 10, heading: null });
+		expect(enclosingSection([], 5, 200)).toEqual({ from: 0, to: 200, heading: null });
+	});
+});
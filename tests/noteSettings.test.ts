@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { applyNoteOverrides, readNoteOverrides } from "../src/noteSettings";
+import type { TTSSettings } from "../src/types";
+
+const voices = [
+	{ voiceURI: "urn:voice:samantha", name: "Samantha", lang: "en-US" },
+	{ voiceURI: "urn:voice:daniel", name: "Daniel", lang: "en-GB" },
+	{ voiceURI: "urn:voice:xander", name: "Xander", lang: "nl-NL" },
+] as SpeechSynthesisVoice[];
+
+describe("readNoteOverrides", () => {
+	it("returns nothing without frontmatter", () => {
+		expect(readNoteOverrides(undefined, voices)).toEqual({ settings: {}, startHeading: null, errors: [] });
+	});
+
+	it("reads valid overrides", () => {
+		const overrides = readNoteOverrides({
+			"tts-voice": "daniel",
+			"tts-rate": 1.25,
+			"tts-pitch": "0.8",
+			"tts-volume": 0,
+			"tts-skip-headings": true,
+			"tts-start-heading": " Summary ",
+			title: "ignored",
+		}, voices);
+		expect(overrides).toEqual({
+			settings: { voice: "urn:voice:daniel", rate: 1.25, pitch: 0.8, volume: 0, readHeadings: false },
+			startHeading: "Summary",
+			errors: [],
+		});
+	});
+
+	it("reports invalid values and ignores them", () => {
+		const overrides = readNoteOverrides({
+			"tts-voice": "Nobody",
+			"tts-rate": 5,
+			"tts-skip-headings": "yes",
+			"tts-start-heading": "",
+		}, voices);
+		expect(overrides.settings).toEqual({});
+		expect(overrides.startHeading).toBeNull();
+		expect(overrides.errors).toHaveLength(4);
+	});
+
+	it("keeps the voice as written while no voices are loaded", () => {
+		expect(readNoteOverrides({ "tts-voice": "Daniel" }, []).settings.voice).toBe("Daniel");
+	});
+});
+
+describe("applyNoteOverrides", () => {
+	const settings = {
+		voice: "",
+		rate: 1,
+		languageVoices: [
+			{ language: "en", voice: "urn:voice:samantha" },
+			{ language: "nl", voice: "urn:voice:xander" },
+		],
+	} as TTSSettings;
+
+	it("overrides single settings", () => {
+		expect(applyNoteOverrides(settings, { rate: 1.5 }, voices)).toEqual({ ...settings, rate: 1.5 });
+	});
+
+	it("keeps the note's voice for its own language", () => {
+		const merged = applyNoteOverrides(settings, { voice: "urn:voice:daniel" }, voices);
+		expect(merged.voice).toBe("urn:voice:daniel");
+		expect(merged.languageVoices).toEqual([{ language: "nl", voice: "urn:voice:xander" }]);
+		expect(settings.languageVoices).toHaveLength(2);
+	});
+});
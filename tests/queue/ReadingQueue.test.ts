@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from "vitest";
+import type { TFile } from "obsidian";
+import { ReadingQueue } from "../../src/queue/ReadingQueue";
+
+function file(path: string): TFile {
+	return { path } as TFile;
+}
+
+const [a, b, c] = [file("a.md"), file("b.md"), file("c.md")];
+
+describe("ReadingQueue", () => {
+	it("adds notes once and reports how many were added", () => {
+		const queue = new ReadingQueue();
+		expect(queue.add([a, b, a])).toBe(2);
+		expect(queue.add([b])).toBe(0);
+		expect(queue.getItems()).toEqual([a, b]);
+	});
+
+	it("prepends notes, moving queued ones to the front", () => {
+		const queue = new ReadingQueue();
+		queue.add([a, b]);
+		queue.prepend([c, b]);
+		expect(queue.getItems()).toEqual([c, b, a]);
+	});
+
+	it("moves and removes by index, ignoring invalid indexes", () => {
+		const queue = new ReadingQueue();
+		queue.add([a, b, c]);
+		queue.move(0, 2);
+		expect(queue.getItems()).toEqual([b, c, a]);
+		queue.move(0, 3);
+		queue.remove(5);
+		queue.remove(1);
+		expect(queue.getItems()).toEqual([b, a]);
+		queue.removeFile(a);
+		expect(queue.getItems()).toEqual([b]);
+	});
+
+	it("puts an interrupted note back at the front", () => {
+		const queue = new ReadingQueue();
+		queue.add([a, b]);
+		expect(queue.next()).toBe(a);
+		expect(queue.getNowReading()).toBe(a);
+		expect(queue.add([a])).toBe(0);
+		queue.interrupt();
+		expect(queue.getNowReading()).toBeNull();
+		expect(queue.getItems()).toEqual([a, b]);
+	});
+
+	it("forgets a finished note", () => {
+		const queue = new ReadingQueue();
+		queue.add([a]);
+		queue.next();
+		queue.finish();
+		expect(queue.getNowReading()).toBeNull();
+		expect(queue.getItems()).toEqual([]);
+		expect(queue.next()).toBeNull();
+	});
+
+	it("reports changes", () => {
+		const queue = new ReadingQueue();
+		const onChange = vi.fn();
+		queue.setChangeCallback(onChange);
+		queue.add([a]);
+		queue.add([a]);
+		queue.clear();
+		expect(onChange).toHaveBeenCalledTimes(2);
+	});
+});
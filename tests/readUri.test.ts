@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import type { ObsidianProtocolData } from "obsidian";
+import { parseReadUri } from "../src/readUri";
+
+function parse(params: Record<string, string>): ReturnType<typeof parseReadUri> {
+	return parseReadUri({ action: "tts-highlight", ...params } as ObsidianProtocolData);
+}
+
+describe("parseReadUri", () => {
+	it("reads file, heading and rate", () => {
+		expect(parse({ file: " Notes/Plan ", heading: "Goals", rate: "1.5" })).toEqual({
+			file: "Notes/Plan",
+			heading: "Goals",
+			block: null,
+			rate: 1.5,
+			errors: [],
+		});
+	});
+
+	it("strips the caret from block ids", () => {
+		expect(parse({ file: "Plan", block: "^abc123" }).block).toBe("abc123");
+	});
+
+	it("reports a missing file", () => {
+		expect(parse({}).errors).toEqual(["file is missing"]);
+	});
+
+	it("prefers the heading over a block", () => {
+		const request = parse({ file: "Plan", heading: "Goals", block: "abc" });
+		expect(request.block).toBeNull();
+		expect(request.errors).toHaveLength(1);
+	});
+
+	it("ignores rates out of range", () => {
+		for (const rate of ["3", "0.1", "fast"]) {
+			const request = parse({ file: "Plan", rate });
+			expect(request.rate).toBeNull();
+			expect(request.errors).toEqual(["rate must be a number from 0.5 to 2"]);
+		}
+	});
+});
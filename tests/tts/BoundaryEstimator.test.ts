@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { BoundaryEstimator } from "../../src/tts/BoundaryEstimator";
+
+/** Char indexes of the words due at `seconds` */
+function due(estimator: BoundaryEstimator, seconds: number): number[] {
+	return estimator.due(seconds).map((w) => w.charIndex);
+}
+
+describe("BoundaryEstimator", () => {
+	it("schedules words by syllables and sentence pauses", () => {
+		const estimator = new BoundaryEstimator();
+		// "Hello" is 2 syllables, "world." 1 plus a sentence pause of 2
+		estimator.begin("Hello world. Again", 1);
+		expect(estimator.due(0)).toEqual([{ charIndex: 0, charLength: 5, offset: 0 }]);
+		expect(due(estimator, 0.4)).toEqual([]);
+		expect(due(estimator, 0.5)).toEqual([6]);
+		expect(due(estimator, 1.25)).toEqual([13]);
+	});
+
+	it("does not count a silent trailing e or skip tokens without vowels", () => {
+		const estimator = new BoundaryEstimator();
+		estimator.begin("make 2024 go", 1);
+		const words = estimator.finish(null);
+		expect(words.map((w) => w.offset)).toEqual([0, 1, 3]);
+	});
+
+	it("scales with the rate", () => {
+		const estimator = new BoundaryEstimator();
+		estimator.begin("Hello world.", 2);
+		expect(due(estimator, 0.25)).toEqual([0, 6]);
+	});
+
+	it("returns the words not reached when a chunk ends", () => {
+		const estimator = new BoundaryEstimator();
+		estimator.begin("one two three", 1);
+		due(estimator, 0);
+		expect(estimator.finish(null).map((w) => w.charIndex)).toEqual([4, 8]);
+		expect(estimator.due(100)).toEqual([]);
+	});
+
+	it("corrects the speed from the measured chunk duration", () => {
+		const estimator = new BoundaryEstimator();
+		// 5 syllables in 2.5 seconds: halfway from 4 to 2 per second gives 3
+		estimator.begin("Hello world.", 1);
+		estimator.finish(2.5);
+		estimator.begin("Hello world.", 1);
+		expect(due(estimator, 0.6)).toEqual([0]);
+		expect(due(estimator, 0.7)).toEqual([6]);
+	});
+
+	it("ignores measurements that are too short or implausible", () => {
+		const estimator = new BoundaryEstimator();
+		estimator.begin("Hello world.", 1);
+		estimator.finish(0.5);
+		estimator.begin("Hello world.", 1);
+		estimator.finish(100);
+		estimator.begin("Hello world.", 1);
+		expect(due(estimator, 0.5)).toEqual([0, 6]);
+	});
+});
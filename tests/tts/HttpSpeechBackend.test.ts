@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Notice, requestUrl } from "obsidian";
+import { HttpSpeechBackend } from "../../src/tts/HttpSpeechBackend";
+import type { TTSSettings } from "../../src/types";
+
+vi.mock("obsidian", async (importOriginal) => ({
+	...await importOriginal<typeof import("obsidian")>(),
+	Notice: vi.fn(),
+	requestUrl: vi.fn(),
+}));
+
+const settings = { serverEndpoint: "http://localhost:5002/speak", rate: 1, pitch: 1, volume: 1 } as TTSSettings;
+
+/** Audio element playing on a clock the test moves */
+class FakeAudio {
+	static last: FakeAudio | null = null;
+	currentTime = 0;
+	volume = 1;
+	onended: (() => void) | null = null;
+	onerror: (() => void) | null = null;
+
+	constructor() {
+		FakeAudio.last = this;
+	}
+
+	play(): Promise<void> {
+		return Promise.resolve();
+	}
+
+	pause(): void {}
+}
+
+function respond(status: number, json: unknown = null): void {
+	vi.mocked(requestUrl).mockResolvedValue({ status, json } as never);
+}
+
+function noticeText(): string {
+	return String(vi.mocked(Notice).mock.calls[0]?.[0]);
+}
+
+/** Let the pending request settle */
+async function settle(): Promise<void> {
+	await vi.advanceTimersByTimeAsync(0);
+}
+
+describe("HttpSpeechBackend", () => {
+	let backend: HttpSpeechBackend;
+	let onError: ReturnType<typeof vi.fn>;
+	let onBoundary: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.stubGlobal("window", globalThis);
+		vi.stubGlobal("Audio", FakeAudio);
+		vi.mocked(Notice).mockClear();
+		backend = new HttpSpeechBackend();
+		onError = vi.fn();
+		onBoundary = vi.fn();
+		backend.setErrorCallback(onError);
+		backend.setBoundaryCallback(onBoundary);
+	});
+
+	afterEach(() => {
+		backend.cancel();
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+	});
+
+	it("explains a missing endpoint", () => {
+		backend.speak("Hello", { ...settings, serverEndpoint: "" });
+		expect(onError).toHaveBeenCalledWith("no synthesis server endpoint configured");
+		expect(noticeText()).toContain("Set the synthesis server URL");
+	});
+
+	it("explains HTTP errors", async () => {
+		respond(500);
+		backend.speak("Hello", settings);
+		await settle();
+		expect(onError).toHaveBeenCalledWith("synthesis server returned HTTP 500");
+		expect(noticeText()).toContain("(HTTP 500)");
+	});
+
+	it("explains an unreachable server", async () => {
+		vi.mocked(requestUrl).mockRejectedValue(new Error("ECONNREFUSED") as never);
+		backend.speak("Hello", settings);
+		await settle();
+		expect(onError).toHaveBeenCalledOnce();
+		expect(noticeText()).toContain(`Could not reach the synthesis server at ${settings.serverEndpoint}`);
+	});
+
+	it("explains a response without audio", async () => {
+		respond(200, { words: [] });
+		backend.speak("Hello", settings);
+		await settle();
+		expect(noticeText()).toContain("returned no audio");
+	});
+
+	it("ignores failures of a cancelled request", async () => {
+		respond(500);
+		backend.speak("Hello", settings);
+		backend.cancel();
+		await settle();
+		expect(onError).not.toHaveBeenCalled();
+		expect(Notice).not.toHaveBeenCalled();
+	});
+
+	it("replays word timestamps and stops on audio errors", async () => {
+		respond(200, { audio: btoa("RIFF"), words: [{ word: "world", start: 0.5 }, { charIndex: 0, charLength: 5, start: 0 }] });
+		backend.speak("Hello world again", settings);
+		await settle();
+		const audio = FakeAudio.last;
+		if (!audio) throw new Error("no audio played");
+
+		await vi.advanceTimersByTimeAsync(50);
+		expect(onBoundary.mock.calls).toEqual([[0, 5]]);
+		audio.currentTime = 0.6;
+		await vi.advanceTimersByTimeAsync(50);
+		expect(onBoundary.mock.calls).toEqual([[0, 5], [6, 5]]);
+
+		audio.onerror?.();
+		expect(onError).toHaveBeenCalledWith("audio playback failed");
+		expect(vi.getTimerCount()).toBe(0);
+	});
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { LanguageDetector, primaryLanguage } from "../../src/tts/LanguageDetector";
+
+const detector = new LanguageDetector();
+
+describe("primaryLanguage", () => {
+	it("takes the primary subtag", () => {
+		expect(primaryLanguage("en-US")).toBe("en");
+		expect(primaryLanguage("NL_be")).toBe("nl");
+	});
+});
+
+describe("LanguageDetector.guess", () => {
+	it("tells Latin-script languages apart by stop words", () => {
+		expect(detector.guess("The cat is on the mat and it is happy.")).toBe("en");
+		expect(detector.guess("De kat is niet op de mat, maar het is een mooie dag.")).toBe("nl");
+		expect(detector.guess("Der Hund ist nicht mit dem Ball auf der Wiese.")).toBe("de");
+	});
+
+	it("recognizes other scripts", () => {
+		expect(detector.guess("Привет, как дела?")).toBe("ru");
+		expect(detector.guess("こんにちは")).toBe("ja");
+	});
+
+	it("returns null when inconclusive", () => {
+		expect(detector.guess("Kubernetes cluster")).toBeNull();
+	});
+});
+
+describe("LanguageDetector.detect", () => {
+	it("covers the text with ranges per language", () => {
+		const text = "The cat is on the mat. De kat is niet op de mat.";
+		const second = text.indexOf("De");
+		const ranges = detector.detect(
+			text,
+			[{ from: 0, to: second - 1 }, { from: second, to: text.length }],
+			[{ from: 0, to: text.length }],
+			[],
+			"fr"
+		);
+		expect(ranges).toEqual([
+			{ from: 0, to: second, language: "en" },
+			{ from: second, to: text.length, language: "nl" },
+		]);
+	});
+
+	it("falls back to the paragraph's language, then to the fallback", () => {
+		const text = "Ok. The cat is on the mat and it is happy.";
+		const second = text.indexOf("The");
+		const sentences = [{ from: 0, to: 3 }, { from: second, to: text.length }];
+		expect(detector.detect(text, sentences, [{ from: 0, to: text.length }], [], "fr"))
+			.toEqual([{ from: 0, to: text.length, language: "en" }]);
+		expect(detector.detect("Ok.", [{ from: 0, to: 3 }], [{ from: 0, to: 3 }], [], "fr"))
+			.toEqual([{ from: 0, to: 3, language: "fr" }]);
+	});
+
+	it("lets lang hints override guesses", () => {
+		const text = "The cat is on the mat and it is happy.";
+		const ranges = detector.detect(
+			text,
+			[{ from: 0, to: text.length }],
+			[{ from: 0, to: text.length }],
+			[{ from: 4, to: 7, language: "de" }],
+			"en"
+		);
+		expect(ranges).toEqual([
+			{ from: 0, to: 4, language: "en" },
+			{ from: 4, to: 7, language: "de" },
+			{ from: 7, to: text.length, language: "en" },
+		]);
+	});
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { MathVerbalizer } from "../../src/tts/MathVerbalizer";
+
+const verbalizer = new MathVerbalizer();
+
+describe("MathVerbalizer", () => {
+	it.each([
+		["x^2", "x squared"],
+		["\\frac{a}{b}", "a over b"],
+		["\\sqrt{x+1}", "the square root of x plus 1"],
+		["\\sum_{i=1}^{n} i", "the sum from i equals 1 to n of i"],
+		["\\alpha \\leq \\beta", "alpha is less than or equal to beta"],
+		["x_1 + y_{ij}", "x sub 1 plus y sub i j"],
+		["(a+b)^2", "the quantity a plus b, squared"],
+		["e^{i\\pi} = -1", "e raised to the i pi power equals minus 1"],
+		["\\text{if } x > 0", "if x is greater than 0"],
+	])("reads %s as words", (latex, spoken) => {
+		expect(verbalizer.verbalize(latex)).toBe(spoken);
+	});
+
+	it("reads unknown commands by name", () => {
+		expect(verbalizer.verbalize("\\foo")).toBe("foo");
+	});
+
+	it("does not stop at stray closing braces", () => {
+		expect(verbalizer.verbalize("a}b")).toBe("a b");
+	});
+});
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PlaybackController } from "../../src/tts/PlaybackController";
+import type { PlaybackState, TTSSettings } from "../../src/types";
+
+/** Utterance that records its settings; the test fires its events */
+class FakeUtterance {
+	text: string;
+	rate = 1;
+	pitch = 1;
+	volume = 1;
+	voice: SpeechSynthesisVoice | null = null;
+	lang = "";
+	onboundary: ((event: { name: string; charIndex: number; charLength: number }) => void) | null = null;
+
+	constructor(text: string) {
+		this.text = text;
+	}
+}
+
+const settings = {
+	backend: "webspeech",
+	chunkSize: 1000,
+	voice: "",
+	rate: 1,
+	pitch: 1,
+	volume: 1,
+	languageVoices: [],
+	spokenStyle: "off",
+} as unknown as TTSSettings;
+
+describe("PlaybackController voice changes", () => {
+	let spoken: FakeUtterance[];
+	let synth: {
+		paused: boolean;
+		getVoices: () => SpeechSynthesisVoice[];
+		speak: (utterance: FakeUtterance) => void;
+		cancel: () => void;
+		pause: () => void;
+		resume: () => void;
+	};
+	let states: PlaybackState[];
+	let controller: PlaybackController;
+
+	beforeEach(() => {
+		spoken = [];
+		synth = {
+			paused: false,
+			getVoices: () => [],
+			speak: (utterance) => spoken.push(utterance),
+			cancel: () => undefined,
+			pause: vi.fn(() => {
+				synth.paused = true;
+			}),
+			resume: vi.fn(() => {
+				synth.paused = false;
+			}),
+		};
+		vi.stubGlobal("window", { speechSynthesis: synth, setInterval: () => 0, clearInterval: () => undefined });
+		vi.stubGlobal("SpeechSynthesisUtterance", FakeUtterance);
+		vi.stubGlobal("requestAnimationFrame", () => 0);
+		vi.stubGlobal("cancelAnimationFrame", () => undefined);
+
+		controller = new PlaybackController();
+		states = [];
+		controller.setStateChangeCallback((state) => states.push(state));
+		controller.play("One two three four.", settings, null, null);
+		// "three" is being spoken
+		spoken[0].onboundary?.({ name: "word", charIndex: 8, charLength: 5 });
+	});
+
+	afterEach(() => {
+		controller.stop();
+		vi.unstubAllGlobals();
+	});
+
+	it("restarts the utterance from the current word while playing", () => {
+		controller.updateVoice({ rate: 2 });
+		expect(spoken).toHaveLength(2);
+		expect(spoken[1]).toMatchObject({ text: "three four.", rate: 2 });
+		expect(controller.getState()).toBe("playing");
+	});
+
+	it("stays silent while paused and speaks the change on resume", () => {
+		controller.pause();
+		states = [];
+		controller.updateVoice({ rate: 2 });
+		expect(spoken).toHaveLength(1);
+		expect(states.every((state) => state === "paused")).toBe(true);
+
+		controller.resume();
+		expect(spoken).toHaveLength(2);
+		expect(spoken[1]).toMatchObject({ text: "three four.", rate: 2 });
+		expect(controller.getState()).toBe("playing");
+	});
+
+	it("resumes the paused utterance when nothing changed", () => {
+		controller.pause();
+		controller.resume();
+		expect(spoken).toHaveLength(1);
+		expect(synth.resume).toHaveBeenCalled();
+	});
+});
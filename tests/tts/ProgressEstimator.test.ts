@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ProgressEstimator } from "../../src/tts/ProgressEstimator";
+
+/** Record a word boundary at `ms` */
+function wordAt(estimator: ProgressEstimator, ms: number, rate = 1): void {
+	vi.spyOn(performance, "now").mockReturnValue(ms);
+	estimator.recordWord(rate);
+}
+
+describe("ProgressEstimator", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("reports the percentage and assumes 150 words per minute before timing", () => {
+		const estimator = new ProgressEstimator();
+		estimator.setText("one two three four");
+		const { percent, remainingSeconds } = estimator.estimate(8, 1);
+		expect(percent).toBeCloseTo(8 / 18 * 100);
+		// "three" and "four" are left
+		expect(remainingSeconds).toBeCloseTo(0.8);
+	});
+
+	it("scales the remaining time with the rate", () => {
+		const estimator = new ProgressEstimator();
+		estimator.setText("one two three four");
+		expect(estimator.estimate(0, 2).remainingSeconds).toBeCloseTo(0.8);
+	});
+
+	it("learns the speed from word gaps", () => {
+		const estimator = new ProgressEstimator();
+		estimator.setText("one two three four");
+		wordAt(estimator, 0);
+		wordAt(estimator, 1000);
+		// 0.4 moves a tenth of the way to 1 second per word
+		expect(estimator.estimate(0, 1).remainingSeconds).toBeCloseTo(4 * 0.46);
+	});
+
+	it("ignores long gaps and gaps across an interruption", () => {
+		const estimator = new ProgressEstimator();
+		estimator.setText("one two");
+		wordAt(estimator, 0);
+		wordAt(estimator, 5000);
+		estimator.interrupt();
+		wordAt(estimator, 5100);
+		expect(estimator.estimate(0, 1).remainingSeconds).toBeCloseTo(0.8);
+	});
+
+	it("reports nothing for empty text", () => {
+		const estimator = new ProgressEstimator();
+		estimator.setText("");
+		expect(estimator.estimate(0, 1)).toEqual({ percent: 0, remainingSeconds: 0 });
+	});
+});
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { applyNoteOverrides } from "../../src/noteSettings";
+import { SpeechEngine } from "../../src/tts/SpeechEngine";
+import type { TTSSettings } from "../../src/types";
+
+describe("SpeechEngine without the Web Speech API", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("reports no voices instead of throwing", async () => {
+		vi.stubGlobal("window", {});
+		expect(SpeechEngine.isSupported()).toBe(false);
+		expect(SpeechEngine.getVoices()).toEqual([]);
+		await expect(SpeechEngine.loadVoices()).resolves.toEqual([]);
+	});
+
+	it("reads the system voices where the API exists", () => {
+		const voices = [{ voiceURI: "urn:voice:a" }];
+		vi.stubGlobal("window", { speechSynthesis: { getVoices: () => voices } });
+		expect(SpeechEngine.isSupported()).toBe(true);
+		expect(SpeechEngine.getVoices()).toBe(voices);
+	});
+});
+
+describe("SpeechEngine voice choice", () => {
+	const voices = [
+		{ voiceURI: "urn:voice:samantha", lang: "en-US" },
+		{ voiceURI: "urn:voice:daniel", lang: "en-GB" },
+		{ voiceURI: "urn:voice:xander", lang: "nl-NL" },
+	] as SpeechSynthesisVoice[];
+	const settings = {
+		voice: "urn:voice:daniel",
+		rate: 1,
+		pitch: 1,
+		volume: 1,
+		languageVoices: [{ language: "en", voice: "urn:voice:samantha" }],
+	} as TTSSettings;
+	let spoken: SpeechSynthesisUtterance[];
+
+	beforeEach(() => {
+		spoken = [];
+		vi.stubGlobal("window", {
+			speechSynthesis: {
+				getVoices: () => voices,
+				speak: (utterance: SpeechSynthesisUtterance) => spoken.push(utterance),
+				cancel: () => undefined,
+				paused: false,
+			},
+			setInterval: () => 0,
+			clearInterval: () => undefined,
+		});
+		vi.stubGlobal("SpeechSynthesisUtterance", class {
+			text: string;
+			voice: SpeechSynthesisVoice | null = null;
+			constructor(text: string) {
+				this.text = text;
+			}
+		});
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	function voiceFor(chunkSettings: TTSSettings, language: string): string | undefined {
+		const engine = new SpeechEngine();
+		engine.speak("Text", chunkSettings, language);
+		engine.cancel();
+		return spoken[spoken.length - 1].voice?.voiceURI;
+	}
+
+	it("prefers the voice set for the language, then a voice speaking it", () => {
+		expect(voiceFor(settings, "en")).toBe("urn:voice:samantha");
+		expect(voiceFor(settings, "nl")).toBe("urn:voice:xander");
+		expect(voiceFor(settings, "")).toBe("urn:voice:daniel");
+	});
+
+	it("keeps a note's voice for its own language", () => {
+		const noteSettings = applyNoteOverrides(settings, { voice: "urn:voice:daniel" }, voices);
+		expect(voiceFor(noteSettings, "en")).toBe("urn:voice:daniel");
+		expect(voiceFor(noteSettings, "nl")).toBe("urn:voice:xander");
+	});
+});
@@ -0,0 +1,307 @@
+import { describe, expect, it, vi } from "vitest";
+import { TextPreparer } from "../../src/tts/TextPreparer";
+import type { PreparedText, PrepareOptions } from "../../src/types";
+
+const preparer = new TextPreparer();
+
+function prepare(raw: string, options: PrepareOptions = {}, editorOffset = 0): PreparedText {
+	return preparer.prepare(raw, 1000, editorOffset, options);
+}
+
+/** Source text behind a plain range */
+function source(raw: string, prepared: PreparedText, from: number, to: number, editorOffset = 0): string {
+	const range = preparer.toEditorRange(prepared.map, from, to);
+	if (!range) throw new Error("range does not map");
+	return raw.substring(range.from - editorOffset, range.to - editorOffset);
+}
+
+function plainRange(prepared: PreparedText, word: string): { from: number; to: number } {
+	const from = prepared.text.indexOf(word);
+	if (from === -1) throw new Error(`"${word}" is not in "${prepared.text}"`);
+	return { from, to: from + word.length };
+}
+
+const k8s: PrepareOptions = {
+	pronunciations: [{ pattern: "k8s", replacement: "kubernetes", regex: false, scope: "" }],
+};
+
+describe("TextPreparer position map", () => {
+	it("maps words back past stripped markup", () => {
+		const raw = "Hello **bold** and [link](https://example.com) and [[Note|alias]].";
+		const prepared = prepare(raw);
+		expect(prepared.text).toBe("Hello bold and link and alias.");
+		for (const word of ["bold", "link", "alias"]) {
+			const { from, to } = plainRange(prepared, word);
+			expect(source(raw, prepared, from, to)).toBe(word);
+		}
+	});
+
+	it("adds the editor offset of a selection", () => {
+		const raw = "*one* two";
+		const prepared = prepare(raw, {}, 100);
+		const { from, to } = plainRange(prepared, "two");
+		expect(preparer.toEditorRange(prepared.map, from, to)).toEqual({ from: 106, to: 109 });
+	});
+
+	it("snaps offsets inside stripped markup to the next spoken character", () => {
+		const raw = "one **two**";
+		const prepared = prepare(raw);
+		expect(preparer.toPlainOffset(prepared.map, raw.indexOf("**"))).toBe(prepared.text.indexOf("two"));
+		expect(preparer.toPlainOffset(prepared.map, raw.indexOf("two") + 1)).toBe(prepared.text.indexOf("two") + 1);
+	});
+});
+
+describe("TextPreparer pronunciations", () => {
+	it("speaks the replacement and highlights the original token", () => {
+		const raw = "Deploy k8s today.";
+		const prepared = prepare(raw, k8s);
+		expect(prepared.text).toBe("Deploy kubernetes today.");
+		expect(prepared.substitutions).toHaveLength(1);
+		const { from, to } = prepared.substitutions[0];
+		expect(prepared.text.substring(from, to)).toBe("kubernetes");
+		expect(source(raw, prepared, from, to)).toBe("k8s");
+	});
+
+	it("only replaces whole words", () => {
+		expect(prepare("abck8s k8sx", k8s).text).toBe("abck8s k8sx");
+	});
+
+	it("inserts regex groups", () => {
+		const prepared = prepare("Version v2 is out", {
+			pronunciations: [{ pattern: "v(\\d)", replacement: "version $1", regex: true, scope: "" }],
+		});
+		expect(prepared.text).toBe("Version version 2 is out");
+	});
+
+	it("applies to wikilink and markdown link text", () => {
+		const raw = "Read [[k8s]], [[Kube|k8s cluster]] and [k8s](https://k8s.io).";
+		const prepared = prepare(raw, k8s);
+		expect(prepared.text).toBe("Read kubernetes, kubernetes cluster and kubernetes.");
+		expect(prepared.substitutions).toHaveLength(3);
+		for (const { from, to } of prepared.substitutions) {
+			expect(source(raw, prepared, from, to)).toBe("k8s");
+		}
+	});
+
+	it("matches literal patterns with regex characters", () => {
+		const prepared = prepare("I like C++ a lot", {
+			pronunciations: [{ pattern: "C++", replacement: "C plus plus", regex: false, scope: "" }],
+		});
+		expect(prepared.text).toBe("I like C plus plus a lot");
+	});
+
+	it("skips invalid regex patterns", () => {
+		const debug = vi.spyOn(console, "debug").mockImplementation(() => undefined);
+		const prepared = prepare("Deploy k8s", {
+			pronunciations: [{ pattern: "(", replacement: "x", regex: true, scope: "" }, ...k8s.pronunciations ?? []],
+		});
+		expect(prepared.text).toBe("Deploy kubernetes");
+		expect(debug).toHaveBeenCalledOnce();
+		debug.mockRestore();
+	});
+});
+
+describe("TextPreparer callouts", () => {
+	it("announces the callout type before its title", () => {
+		const raw = "> [!warning]+ Mind the gap\n> Stand back.";
+		const prepared = prepare(raw);
+		expect(prepared.text).toBe("Warning: Mind the gap Stand back.");
+		// The announcement is spread over the [!warning] marker
+		const label = plainRange(prepared, "Warning");
+		const range = preparer.toEditorRange(prepared.map, label.from, label.to);
+		expect(range?.from).toBe(raw.indexOf("[!"));
+		expect(range?.to).toBeLessThanOrEqual(raw.indexOf("]") + 1);
+	});
+
+	it("ends untitled announcements as a sentence", () => {
+		expect(prepare("> [!my-note]\n> Body text.").text).toBe("My note. Body text.");
+	});
+
+	it("drops the type when callouts are not announced", () => {
+		expect(prepare("> [!tip] Title\n> Body.", { announceCallouts: false }).text).toBe("Title Body.");
+	});
+
+	it("skips collapsed callouts unless enabled", () => {
+		const raw = "Before.\n> [!faq]- Hidden\n> > Nested.\n> Still hidden.\nAfter.";
+		expect(prepare(raw, { readCollapsedCallouts: false }).text).toBe("Before. After.");
+		expect(prepare(raw).text).toContain("Faq: Hidden");
+	});
+});
+
+describe("TextPreparer content filters", () => {
+	it("skips headings", () => {
+		const raw = "# Title\n\nBody text.";
+		expect(prepare(raw).text).toContain("Title");
+		expect(prepare(raw, { readHeadings: false }).text.trim()).toBe("Body text.");
+	});
+
+	it("skips code", () => {
+		const raw = "Run `npm test` now.\n\n```\nconst x = 1;\n```\n\nDone.";
+		const prepared = prepare(raw, { readCodeBlocks: false, readInlineCode: false });
+		expect(prepared.text).not.toContain("npm test");
+		expect(prepared.text).not.toContain("const x");
+		expect(prepared.text).toContain("Done.");
+		expect(prepare(raw, { readCodeBlocks: true, readInlineCode: true }).text).toContain("npm test");
+	});
+
+	it("reads image alt text unless disabled", () => {
+		const raw = "See ![a red fox](fox.png) here.";
+		expect(prepare(raw).text).toBe("See a red fox here.");
+		expect(prepare(raw, { readImageAlt: false }).text).not.toContain("fox");
+	});
+
+	it("skips comments unless enabled", () => {
+		const raw = "Visible %%hidden note%% text <!-- html note --> end.";
+		const prepared = prepare(raw);
+		expect(prepared.text).not.toContain("hidden");
+		expect(prepared.text).not.toContain("html note");
+		const all = prepare(raw, { readComments: true, readHtmlComments: true });
+		expect(all.text).toContain("hidden note");
+		expect(all.text).toContain("html note");
+	});
+
+	it("never reads footnote markers and skips footnotes when disabled", () => {
+		const raw = "Claim[^1] made.\n\n[^1]: The source.";
+		expect(prepare(raw).text).not.toContain("^1");
+		expect(prepare(raw).text).toContain("The source.");
+		expect(prepare(raw, { readFootnotes: false }).text).toBe("Claim made.");
+	});
+
+	it("skips tables", () => {
+		const raw = "Intro.\n\n| A | B |\n| - | - |\n| one | two |\n\nOutro.";
+		expect(prepare(raw).text).toContain("one");
+		expect(prepare(raw, { readTables: false }).text.replace(/\s+/g, " ")).toBe("Intro. Outro.");
+	});
+});
+
+describe("TextPreparer math", () => {
+	it("verbalizes formulas over the whole formula source", () => {
+		const raw = "So $x^2$ grows.";
+		const prepared = prepare(raw);
+		expect(prepared.text).toBe("So x squared grows.");
+		expect(prepared.formulas).toHaveLength(1);
+		const { from, to } = prepared.formulas[0];
+		expect(prepared.text.substring(from, to)).toBe("x squared");
+		expect(source(raw, prepared, from, to)).toBe("$x^2$");
+	});
+
+	it("verbalizes display math", () => {
+		const raw = "Then\n$$\\frac{a}{b}$$\nholds.";
+		const prepared = prepare(raw);
+		expect(prepared.text).toContain("a over b");
+		const { from, to } = prepared.formulas[0];
+		expect(source(raw, prepared, from, to)).toBe("$$\\frac{a}{b}$$");
+	});
+
+	it("skips formulas when math is not read", () => {
+		const prepared = prepare("So $x^2$ grows.", { readMath: false });
+		expect(prepared.text).not.toContain("x");
+		expect(prepared.formulas).toEqual([]);
+	});
+});
+
+describe("TextPreparer embeds", () => {
+	const embeds = {
+		Other: { text: "**Inner** text.", embeds: {} },
+	};
+
+	it("reads resolved embeds in place of the link", () => {
+		const raw = "Before. ![[Other]] After.";
+		const prepared = prepare(raw, { embeds });
+		expect(prepared.text).toContain("Inner text.");
+		expect(prepared.embeds).toHaveLength(1);
+		const { from, to } = prepared.embeds[0];
+		expect(prepared.text.substring(from, to)).toBe("Inner text.");
+		expect(source(raw, prepared, from, to)).toBe("![[Other]]");
+		const after = plainRange(prepared, "After");
+		expect(source(raw, prepared, after.from, after.to)).toBe("After");
+	});
+
+	it("reads embeds inside embeds", () => {
+		const prepared = prepare("![[Outer]]", {
+			embeds: { Outer: { text: "Outer ![[Inner]] done.", embeds: { Inner: { text: "inner", embeds: {} } } } },
+		});
+		expect(prepared.text).toBe("Outer inner done.");
+	});
+
+	it("leaves unresolved embeds to the link handling", () => {
+		const prepared = prepare("See ![[Missing]].", { embeds });
+		expect(prepared.embeds).toEqual([]);
+	});
+});
+
+describe("TextPreparer splice", () => {
+	it("replaces the text from an offset with text prepared after an edit", () => {
+		const before = "One **two**. Three four.";
+		const prepared = prepare(before, k8s);
+		const at = prepared.text.indexOf("Three");
+
+		// "Three four." was edited to "Three k8s five." in the editor
+		const edited = "One **two**. Three k8s five.";
+		const restFrom = edited.indexOf("Three");
+		const rest = prepare(edited.substring(restFrom), k8s, restFrom);
+		const spliced = preparer.splice(prepared, at, rest, 1000);
+
+		expect(spliced.text).toBe("One two. Three kubernetes five.");
+		expect(spliced.chunks).toEqual([spliced.text]);
+		expect(spliced.sentences.map((r) => spliced.text.substring(r.from, r.to))).toEqual(["One two.", "Three kubernetes five."]);
+		for (const word of ["two", "five"]) {
+			const { from, to } = plainRange(spliced, word);
+			expect(source(edited, spliced, from, to)).toBe(word);
+		}
+		const [substitution] = spliced.substitutions;
+		expect(source(edited, spliced, substitution.from, substitution.to)).toBe("k8s");
+	});
+
+	it("cuts ranges that cross the splice point", () => {
+		const prepared = prepare("One two three.");
+		const at = prepared.text.indexOf("three");
+		const spliced = preparer.splice(prepared, at, prepare("four.", {}, 8), 1000);
+		expect(spliced.text).toBe("One two four.");
+		expect(spliced.sentences.map((r) => spliced.text.substring(r.from, r.to))).toEqual(["One two", "four."]);
+	});
+});
+
+describe("TextPreparer languages", () => {
+	const raw = "The cat is on the mat and it is happy.\n\nDe kat is niet op de mat, maar het is een mooie dag.";
+
+	it("detects languages only when enabled", () => {
+		expect(prepare(raw).languages).toEqual([]);
+		const prepared = prepare(raw, { detectLanguage: true, defaultLanguage: "en" });
+		expect(prepared.languages.map((r) => r.language)).toEqual(["en", "nl"]);
+	});
+
+	it("splits chunks where the language changes", () => {
+		const prepared = prepare(raw, { detectLanguage: true });
+		expect(prepared.chunks).toHaveLength(2);
+		expect(prepared.chunks[1].trim().startsWith("De kat")).toBe(true);
+	});
+
+	it("follows lang attributes", () => {
+		const prepared = prepare("The cat is on the mat and <span lang=\"fr-FR\">le chat</span> is happy.", {
+			detectLanguage: true,
+		});
+		const french = prepared.languages.find((r) => r.language === "fr-FR");
+		expect(french && prepared.text.substring(french.from, french.to)).toBe("le chat");
+	});
+});
+
+describe("TextPreparer ranges", () => {
+	it("splits sentences and finds the range of an offset", () => {
+		const prepared = prepare("First one. Second one! Third?");
+		expect(prepared.sentences.map((s) => prepared.text.substring(s.from, s.to)))
+			.toEqual(["First one.", "Second one!", "Third?"]);
+		expect(preparer.findRangeIndex(prepared.sentences, prepared.text.indexOf("Second") + 2)).toBe(1);
+		expect(preparer.findRangeIndex(prepared.sentences, prepared.text.length)).toBe(3);
+	});
+
+	it("keeps chunks within the chunk size", () => {
+		const raw = "Word ".repeat(100).trim();
+		const prepared = preparer.prepare(raw, 50);
+		expect(prepared.chunks.length).toBeGreaterThan(1);
+		for (const chunk of prepared.chunks) expect(chunk.length).toBeLessThanOrEqual(50);
+		prepared.chunks.forEach((chunk, i) => {
+			expect(prepared.text.substr(prepared.chunkOffsets[i], chunk.length)).toBe(chunk);
+		});
+	});
+});
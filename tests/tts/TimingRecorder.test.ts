@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { TextPreparer } from "../../src/tts/TextPreparer";
+import { TimingRecorder } from "../../src/tts/TimingRecorder";
+
+const prepared = new TextPreparer().prepare("One two. Three four.", 1000);
+
+function at(ms: number): void {
+	vi.spyOn(performance, "now").mockReturnValue(ms);
+}
+
+/** Record the word at `from` of the prepared text */
+function word(recorder: TimingRecorder, text: string, sentence: number): void {
+	const from = prepared.text.indexOf(text);
+	recorder.recordWord(from, from + text.length, sentence);
+}
+
+describe("TimingRecorder", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("makes one cue per sentence, ending where the next starts", () => {
+		const recorder = new TimingRecorder();
+		at(1000);
+		recorder.start(prepared);
+		word(recorder, "One", 0);
+		at(1400);
+		word(recorder, "two", 0);
+		at(2000);
+		word(recorder, "Three", 1);
+		at(3500);
+		recorder.finish();
+		expect(recorder.getCues()).toEqual([
+			{ start: 0, end: 1000, text: "One two." },
+			{ start: 1000, end: 2500, text: "Three four." },
+		]);
+	});
+
+	it("leaves paused time out of the timeline", () => {
+		const recorder = new TimingRecorder();
+		at(0);
+		recorder.start(prepared);
+		word(recorder, "One", 0);
+		at(500);
+		recorder.pause();
+		at(5000);
+		recorder.resume();
+		at(5200);
+		word(recorder, "Three", 1);
+		expect(recorder.getCues()[1].start).toBe(700);
+	});
+
+	it("gives the last cue a fallback length without an end", () => {
+		const recorder = new TimingRecorder();
+		at(0);
+		recorder.start(prepared);
+		expect(recorder.hasRecording()).toBe(false);
+		word(recorder, "One", 0);
+		expect(recorder.hasRecording()).toBe(true);
+		expect(recorder.getCues()).toEqual([{ start: 0, end: 2000, text: "One two." }]);
+	});
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from "vitest";
+import { type App, TFile, resolveSubpath } from "obsidian";
+import { resolveEmbeds } from "../../src/tts/embeds";
+
+vi.mock("obsidian", async (importOriginal) => ({
+	...await importOriginal<typeof import("obsidian")>(),
+	resolveSubpath: vi.fn(),
+}));
+
+/** An app whose vault holds `notes`, keyed by path */
+function appWith(notes: Record<string, string>): App {
+	const files: Record<string, TFile> = {};
+	for (const path of Object.keys(notes)) {
+		files[path] = Object.assign(new TFile(), { path, extension: path.split(".").pop() ?? "" });
+	}
+	return {
+		metadataCache: {
+			getFirstLinkpathDest: (link: string) => files[link] ?? files[`${link}.md`] ?? null,
+			getFileCache: () => ({}),
+		},
+		vault: {
+			cachedRead: (file: TFile) => Promise.resolve(notes[file.path]),
+		},
+	} as unknown as App;
+}
+
+describe("resolveEmbeds", () => {
+	it("resolves nested note embeds keyed as written", async () => {
+		const app = appWith({
+			"Main.md": "Start ![[A]] end",
+			"A.md": "A text ![[B|shown]]",
+			"B.md": "B text",
+		});
+		expect(await resolveEmbeds(app, "Start ![[A]] end", "Main.md")).toEqual({
+			A: { text: "A text ![[B|shown]]", embeds: { B: { text: "B text", embeds: {} } } },
+		});
+	});
+
+	it("leaves out missing targets, other files and loops", async () => {
+		const app = appWith({
+			"Main.md": "",
+			"Loop.md": "Back to ![[Main]]",
+			"image.png": "",
+		});
+		const embeds = await resolveEmbeds(app, "![[Missing]] ![[image.png]] ![[Loop]]", "Main.md");
+		expect(embeds).toEqual({ Loop: { text: "Back to ![[Main]]", embeds: {} } });
+	});
+
+	it("stops at the maximum depth", async () => {
+		const app = appWith({ "A.md": "![[B]]", "B.md": "![[C]]", "C.md": "![[D]]", "D.md": "D" });
+		const embeds = await resolveEmbeds(app, "![[A]]", "Main.md");
+		expect(embeds.A.embeds.B.embeds.C.embeds).toEqual({});
+	});
+
+	it("reads the section a subpath names", async () => {
+		const content = "# One\nFirst.\n# Two\nSecond.";
+		vi.mocked(resolveSubpath).mockReturnValue({
+			start: { offset: content.indexOf("# Two") },
+			end: null,
+		} as never);
+		const embeds = await resolveEmbeds(appWith({ "A.md": content }), "![[A#Two]]", "Main.md");
+		expect(embeds["A#Two"].text).toBe("# Two\nSecond.");
+	});
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { formatSubtitles } from "../../src/tts/subtitles";
+
+const cues = [
+	{ start: 0, end: 1250, text: "Hello there." },
+	{ start: 3723004, end: 3724999.6, text: "Much later." },
+];
+
+describe("formatSubtitles", () => {
+	it("writes WebVTT with a header and dotted milliseconds", () => {
+		expect(formatSubtitles(cues, "vtt")).toBe(
+			"WEBVTT\n\n" +
+			"1\n00:00:00.000 --> 00:00:01.250\nHello there.\n\n" +
+			"2\n01:02:03.004 --> 01:02:05.000\nMuch later.\n"
+		);
+	});
+
+	it("writes SubRip with comma milliseconds", () => {
+		expect(formatSubtitles(cues, "srt")).toBe(
+			"1\n00:00:00,000 --> 00:00:01,250\nHello there.\n\n" +
+			"2\n01:02:03,004 --> 01:02:05,000\nMuch later.\n"
+		);
+	});
+
+	it("clamps negative times to zero", () => {
+		expect(formatSubtitles([{ start: -5, end: 10, text: "a" }], "srt")).toContain("00:00:00,000 --> 00:00:00,010");
+	});
+});
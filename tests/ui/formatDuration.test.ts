@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { formatDuration } from "../../src/ui/formatDuration";
+
+describe("formatDuration", () => {
+	it("formats minutes and seconds", () => {
+		expect(formatDuration(0)).toBe("0:00");
+		expect(formatDuration(65)).toBe("1:05");
+		expect(formatDuration(59.6)).toBe("1:00");
+	});
+
+	it("adds hours from an hour", () => {
+		expect(formatDuration(3600)).toBe("1:00:00");
+		expect(formatDuration(3725)).toBe("1:02:05");
+	});
+
+	it("treats negative durations as zero", () => {
+		expect(formatDuration(-3)).toBe("0:00");
+	});
+});
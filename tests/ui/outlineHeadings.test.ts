@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { type App, type HeadingCache, TFile, type WorkspaceLeaf } from "obsidian";
+import { outlineHeadingAt } from "../../src/ui/outlineHeadings";
+
+/** Stand-in for an outline `.tree-item`, with just the DOM calls outlineHeadingAt makes */
+interface FakeItem {
+	self: HTMLElement;
+	parentElement: { closest(selector: string): FakeItem | null };
+	querySelector(selector: string): HTMLElement;
+}
+
+function outlineItem(text: string, parent: FakeItem | null = null): FakeItem {
+	const item = {
+		parentElement: { closest: (selector: string) => (selector === ".tree-item" ? parent : null) },
+		querySelector: () => self,
+	} as unknown as FakeItem;
+	const self = {
+		textContent: text,
+		closest: (selector: string) =>
+			selector === ".tree-item-self" ? self : selector === ".tree-item" ? item : null,
+	} as unknown as HTMLElement;
+	item.self = self;
+	return item;
+}
+
+function heading(level: number, text: string): HeadingCache {
+	const start = { line: 0, col: 0, offset: 0 };
+	return { level, heading: text, position: { start, end: start } };
+}
+
+const file = Object.assign(new TFile(), { path: "Note.md" });
+
+function setup(headings: HeadingCache[], state: Record<string, unknown> = { file: "Note.md" }): { app: App; leaf: WorkspaceLeaf } {
+	const app = {
+		vault: { getAbstractFileByPath: (path: string) => (path === file.path ? file : null) },
+		metadataCache: { getFileCache: () => ({ headings }) },
+	} as unknown as App;
+	const leaf = { view: { getState: () => state } } as unknown as WorkspaceLeaf;
+	return { app, leaf };
+}
+
+describe("outlineHeadingAt", () => {
+	const headings = [heading(1, "Intro"), heading(2, "Setup"), heading(1, "Usage"), heading(2, "Setup")];
+
+	it("matches an item by the texts of its parent headings", () => {
+		const { app, leaf } = setup(headings);
+		const usage = outlineItem("Usage");
+		expect(outlineHeadingAt(app, leaf, outlineItem("Setup", usage).self)).toEqual({ file, index: 3 });
+		expect(outlineHeadingAt(app, leaf, outlineItem("Setup", outlineItem("Intro")).self)).toEqual({ file, index: 1 });
+	});
+
+	it("ignores markup the outline does not render", () => {
+		const { app, leaf } = setup([heading(1, "Read **the** [[Guide|guide]] `now`")]);
+		expect(outlineHeadingAt(app, leaf, outlineItem("Read the guide now").self)?.index).toBe(0);
+	});
+
+	it("returns null when the outline shows no known note", () => {
+		const target = outlineItem("Intro").self;
+		for (const state of [{}, { file: "Other.md" }]) {
+			const { app, leaf } = setup(headings, state);
+			expect(outlineHeadingAt(app, leaf, target)).toBeNull();
+		}
+	});
+
+	it("returns null for items that match no heading", () => {
+		const { app, leaf } = setup(headings);
+		expect(outlineHeadingAt(app, leaf, outlineItem("Setup").self)).toBeNull();
+	});
+});
@@ -0,0 +1,12 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+	resolve: {
+		// The obsidian package only ships type declarations
+		alias: { obsidian: fileURLToPath(new URL("./tests/__mocks__/obsidian.ts", import.meta.url)) },
+	},
+	test: {
+		include: ["tests/**/*.test.ts"],
+	},
+});